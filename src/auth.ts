@@ -3,6 +3,94 @@ import type { NextFunction, Request, Response } from 'express';
 import { ApiEndpointRequest, DirectusRuntimeContext, Accountability } from './directus.js';
 import { ConfigEndpointsItem } from './types/items.js';
 import { Refactor, Select } from './types/select.js';
+import { findEndpointConfig, normalizeEndpointPath } from './endpoint-patterns.js';
+import {
+  type EndpointCredentialConfig,
+  registerApiKeyHashing,
+  touchCredential,
+  verifyApiKey,
+  verifyHmacSignature,
+} from './endpoint-credentials.js';
+import {
+  createEndpointAccessLogger,
+  type EndpointAccessLogOptions,
+  type EndpointAccessReason,
+} from './endpoint-access-log.js';
+import { isIpAllowed, MemoryRateLimitStore, type RateLimitStore } from './endpoint-rate-limit.js';
+import { HTTP_STATUS } from './http-status-codes.js';
+import {
+  DEFAULT_ENDPOINT_CONFIG_CACHE_TTL,
+  EndpointConfigCache,
+  registerEndpointConfigInvalidation,
+} from './endpoint-config-cache.js';
+
+type ConfigEndpointsQueryItem = Refactor<
+  Select<
+    ConfigEndpointsItem,
+    'id' | 'endpoint' | 'status' | 'allow_public_access' | 'roles' | 'users' | 'credentials',
+    'methods' | 'rate_limit' | 'rate_limit_window' | 'rate_limit_key' | 'ip_allowlist'
+  >,
+  {
+    roles: Array<{ directus_roles_id: string }>;
+    users: Array<{ directus_users_id: string }>;
+    credentials: Array<{ config_endpoint_credentials_id: EndpointCredentialConfig | null }>;
+  }
+>;
+
+export type EndpointAuthOptions = {
+  /**
+   * Caching of endpoint configs. Cached configs are invalidated automatically when `config_endpoints`
+   * or its roles/users junction collections are changed. Set to `false` to disable caching (eg in tests).
+   * @default { ttl: 300000 }
+   */
+  cache?:
+    | false
+    | {
+        /**
+         * Time (ms) to keep cached configs, as a safety net in case an invalidation was missed
+         * @default 300000 (5 minutes)
+         */
+        ttl?: number;
+      };
+  /**
+   * Logs endpoint access to the `endpoint_access_log` collection. Disabled by default.
+   * Pass `true` to log denied requests only, or an options object to also log a sample of allowed requests.
+   * @default false
+   */
+  accessLog?: boolean | EndpointAccessLogOptions;
+  /**
+   * Store for rate limit counters of endpoints that have a `rate_limit` configured.
+   * Defaults to an in-memory store, which counts requests per Directus instance.
+   */
+  rateLimitStore?: RateLimitStore;
+};
+
+const ForbiddenError = createError('ENDPOINT_AUTH_FORBIDDEN', '', HTTP_STATUS.FORBIDDEN);
+const RateLimitedError = createError('ENDPOINT_RATE_LIMITED', 'Too many requests', HTTP_STATUS.TOO_MANY_REQUESTS);
+
+const DEFAULT_RATE_LIMIT_WINDOW = 60;
+const defaultRateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Error thrown internally when access to an endpoint is denied
+ */
+class EndpointAccessDeniedError extends Error {
+  constructor(
+    public readonly reason: EndpointAccessReason,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const endpointConfigCache = new EndpointConfigCache<ConfigEndpointsQueryItem>();
+
+/**
+ * Clears cached endpoint configs, forcing them to be reloaded from the database on the next request
+ */
+export function clearEndpointConfigCache() {
+  endpointConfigCache.invalidate();
+}
 
 /**
  * Returns a middleware function that checks authorisation on a custom endpoint.
@@ -11,55 +99,154 @@ import { Refactor, Select } from './types/select.js';
  * 1. if there is accountability (an authenticated request)
  * 2. if the user that is authenticated has direct access
  * 3. if the role of the user that is authenticated has direct access
+ * 4. if the request was sent with a valid API key or HMAC signature of a credential linked to the endpoint
  * Otherwise it'll throw a ForbiddenException
  *
+ * Endpoints can optionally restrict access to an IP allowlist (addresses or CIDR ranges), and limit the
+ * number of requests per time window. Requests exceeding the limit get a 429 response with a `Retry-After` header.
+ *
+ * The credential used to access the endpoint is available to handlers as `req.credential`.
+ *
+ * Endpoints can be configured with Express-style patterns such as `/my-extension/orders/:id` or `/my-extension/reports/*`.
+ * If multiple configs match the requested url, the most specific one is used (see `findEndpointConfig`).
+ *
  * Setup instructions:
  * Add a collection named `config_endpoints` with the following fields:
- * - endpoint: string
+ * - endpoint: string (url or pattern, including the extension's mount point)
+ * - methods: json (optional array of HTTP methods, eg ["GET", "POST"]. Empty matches all methods)
  * - status: string (enum: enabled, disabled)
  * - roles: many-to-many relation to directus_roles
  * - users: many-to-many relation to directus_users
+ * - credentials: many-to-many relation to `config_endpoint_credentials` (API keys and HMAC secrets for external systems)
+ * - ip_allowlist: json (optional array of IP addresses and CIDR ranges)
+ * - rate_limit: integer (optional max number of requests per window)
+ * - rate_limit_window: integer (window length in seconds, defaults to 60)
+ * - rate_limit_key: string (enum: auto, user, credential, ip. What requests are counted together)
  * You can also merge the "collections", "fields" and "relations" entries from auth.schema.json into your own schema.json file
+ * or call `ensureSchema(directus)` from a hook's `init` event to create them automatically
+ *
+ * Endpoint configs are cached in memory, see `EndpointAuthOptions.cache`.
+ * Access can be logged to the database, see `EndpointAuthOptions.accessLog`.
  *
  * @param context the directus context
+ * @param options endpoint authorization options
  * @returns a middleware function
  * @throws a ForbiddenException if route is not found or if user is not authorised to access endpoint
  */
-export function endpointAuth(context: DirectusRuntimeContext) {
+export function endpointAuth(context: DirectusRuntimeContext, options?: EndpointAuthOptions) {
+  const cacheOptions = options?.cache === false ? null : { ttl: DEFAULT_ENDPOINT_CONFIG_CACHE_TTL, ...options?.cache };
+  if (cacheOptions) {
+    registerEndpointConfigInvalidation(context, endpointConfigCache);
+  }
+  registerApiKeyHashing(context);
+  const rateLimitStore = options?.rateLimitStore ?? defaultRateLimitStore;
+  const accessLogger = options?.accessLog
+    ? createEndpointAccessLogger(context, options.accessLog === true ? {} : options.accessLog)
+    : null;
+
   return async function middlewareFunction(req: ApiEndpointRequest, res: Response, next: NextFunction) {
-    const endpointUrl = req.originalUrl.split('?').shift() as string;
+    const start = Date.now();
+    const endpointUrl = normalizeEndpointPath(req.originalUrl);
     const { logger } = context;
-    logger.debug(`endpointAuth: Checking authR on endpoint ${endpointUrl}`);
+    logger.debug(`endpointAuth: Checking authR on endpoint ${req.method} ${endpointUrl}`);
     const { schema } = req;
-    type ConfigEndpointsQueryItem = Refactor<
-      Select<ConfigEndpointsItem, 'status' | 'allow_public_access' | 'roles' | 'users'>,
-      {
-        roles: Array<{ directus_roles_id: string }>;
-        users: Array<{ directus_users_id: string }>;
+    const loadEndpointConfigs = () => {
+      const endpointConfigService = new context.services.ItemsService<ConfigEndpointsQueryItem>('config_endpoints', {
+        schema,
+      });
+      // Patterns can't be matched by the database, so load all configs and find the most specific match
+      return endpointConfigService.readByQuery({
+        fields: [
+          'id',
+          'endpoint',
+          'methods',
+          'status',
+          'allow_public_access',
+          'roles.directus_roles_id',
+          'users.directus_users_id',
+          'credentials.config_endpoint_credentials_id.id',
+          'credentials.config_endpoint_credentials_id.name',
+          'credentials.config_endpoint_credentials_id.type',
+          'credentials.config_endpoint_credentials_id.status',
+          'credentials.config_endpoint_credentials_id.key_hash',
+          'credentials.config_endpoint_credentials_id.secret',
+          'credentials.config_endpoint_credentials_id.hmac_header',
+          'credentials.config_endpoint_credentials_id.hmac_algorithm',
+          'credentials.config_endpoint_credentials_id.hmac_tolerance',
+          'credentials.config_endpoint_credentials_id.expires_at',
+          'ip_allowlist',
+          'rate_limit',
+          'rate_limit_window',
+          'rate_limit_key',
+        ],
+        limit: -1,
+      });
+    };
+
+    const logAccess = (reason: EndpointAccessReason, message: string | null, statusCode: number | null) => {
+      accessLogger?.log({
+        endpoint: endpointUrl,
+        method: req.method,
+        user: req.accountability?.user ?? null,
+        role: req.accountability?.role ?? null,
+        credential: req.credential && 'name' in req.credential ? req.credential.name : null,
+        ip: req.accountability?.ip ?? req.ip ?? null,
+        decision: statusCode === null ? 'denied' : 'allowed',
+        reason,
+        message,
+        status_code: statusCode,
+        latency: Date.now() - start,
+      });
+    };
+    const clientIp = req.accountability?.ip ?? req.ip ?? null;
+    const allow = async (reason: EndpointAccessReason, config: ConfigEndpointsQueryItem) => {
+      if (config.rate_limit) {
+        const window = (config.rate_limit_window ?? DEFAULT_RATE_LIMIT_WINDOW) * 1000;
+        const credential =
+          req.credential && 'id' in req.credential ? `${req.credential.type}:${req.credential.id}` : null;
+        const user = req.accountability?.user ?? null;
+        const identity = {
+          auto: user ?? credential ?? `ip:${clientIp}`,
+          user: user ?? 'anonymous',
+          credential: credential ?? 'none',
+          ip: `ip:${clientIp}`,
+        }[config.rate_limit_key ?? 'auto'];
+        const { count, resetAt } = await rateLimitStore.hit(`${config.id}:${identity}`, window);
+        if (count > config.rate_limit) {
+          res.setHeader('Retry-After', Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)));
+          throw new EndpointAccessDeniedError(
+            'rate_limited',
+            `Rate limit of ${config.rate_limit} requests per ${window / 1000}s exceeded by ${identity}`,
+          );
+        }
+      }
+      if (accessLogger?.shouldLogAllowed()) {
+        // Log once the response has been sent, so the latency and status code of the handler are included
+        res.once('finish', () => logAccess(reason, null, res.statusCode));
       }
-    >;
-    const endpointConfigService = new context.services.ItemsService<ConfigEndpointsQueryItem>('config_endpoints', {
-      schema,
-    });
+      next(); // All good
+    };
 
     try {
-      const [currentEndpointConfig] = await endpointConfigService.readByQuery({
-        fields: ['status', 'allow_public_access', 'roles.directus_roles_id', 'users.directus_users_id'],
-        filter: {
-          endpoint: {
-            _eq: endpointUrl,
-          },
-        },
-      });
+      const endpointConfigs = cacheOptions
+        ? await endpointConfigCache.get(cacheOptions.ttl, loadEndpointConfigs)
+        : await loadEndpointConfigs();
+      const currentEndpointConfig = findEndpointConfig(endpointConfigs, endpointUrl, req.method);
       if (!currentEndpointConfig) {
-        throw new Error('Unconfigured endpoint');
+        throw new EndpointAccessDeniedError('unconfigured', 'Unconfigured endpoint');
       }
       if (currentEndpointConfig.status !== 'enabled') {
-        throw new Error('DISABLED endpoint');
+        throw new EndpointAccessDeniedError('disabled', 'DISABLED endpoint');
+      }
+      if ((currentEndpointConfig.ip_allowlist?.length ?? 0) > 0) {
+        if (!isIpAllowed(clientIp, currentEndpointConfig.ip_allowlist!)) {
+          throw new EndpointAccessDeniedError('ip_not_allowed', `IP address ${clientIp} is not allowed`);
+        }
       }
       if (currentEndpointConfig.allow_public_access) {
         logger.debug(`endpointAuth: Endpoint ${endpointUrl} allows public access`);
-        next(); // All good
+        req.credential = { type: 'public' };
+        await allow('public', currentEndpointConfig);
         return;
       }
       // The roles that are setup to access this route
@@ -74,19 +261,55 @@ export function endpointAuth(context: DirectusRuntimeContext) {
        * Otherwise it'll throw a ForbiddenException
        */
       if (
-        !authorizedRoles.includes(req.accountability?.role as string) &&
-        !authorizedUsers.includes(req.accountability?.user as string)
+        authorizedRoles.includes(req.accountability?.role as string) ||
+        authorizedUsers.includes(req.accountability?.user as string)
       ) {
-        throw new Error(`User not authorized: ${JSON.stringify(req.accountability)}`);
+        req.credential = {
+          type: 'directus',
+          user: req.accountability?.user ?? null,
+          role: req.accountability?.role ?? null,
+        };
+        await allow('user', currentEndpointConfig);
+        return;
       }
 
-      next(); // All good
+      // Check machine-to-machine credentials (API keys, HMAC signed webhooks)
+      const credentials = (currentEndpointConfig.credentials ?? [])
+        .map((link) => link.config_endpoint_credentials_id)
+        .filter((credential): credential is EndpointCredentialConfig => !!credential);
+      let credential: EndpointCredentialConfig | undefined;
+      try {
+        credential = verifyApiKey(req, credentials) ?? verifyHmacSignature(req, credentials);
+      } catch (error: any) {
+        throw new EndpointAccessDeniedError('not_authorized', error?.message ?? `${error}`);
+      }
+      if (!credential) {
+        throw new EndpointAccessDeniedError(
+          'not_authorized',
+          `User not authorized: ${JSON.stringify(req.accountability)}`,
+        );
+      }
+      logger.debug(`endpointAuth: Endpoint ${endpointUrl} accessed with ${credential.type} "${credential.name}"`);
+      req.credential = { type: credential.type, id: credential.id, name: credential.name };
+      touchCredential(context, credential);
+      await allow(credential.type, currentEndpointConfig);
     } catch (error: any) {
-      logger.error(`endpointAuth: Endpoint authR failed for ${req.originalUrl}: ${error?.message ?? error}`);
+      logger.error(
+        `endpointAuth: Endpoint authR failed for ${req.method} ${req.originalUrl}: ${error?.message ?? error}`,
+      );
+      logAccess(
+        error instanceof EndpointAccessDeniedError ? error.reason : 'error',
+        error?.message ?? `${error}`,
+        null,
+      );
+
+      if (error instanceof EndpointAccessDeniedError && error.reason === 'rate_limited') {
+        next(new RateLimitedError());
+        return;
+      }
 
       // throw Forbidden exception instead of RouteNotFoundException
       // so that we don't give boefjes a clue as to which routes exist
-      const ForbiddenError = createError('ENDPOINT_AUTH_FORBIDDEN', '');
       next(new ForbiddenError());
     }
   } as (req: Request, res: Response, next: NextFunction) => any;
@@ -46,13 +46,22 @@ export type DirectusEventContext = {
 };
 
 // Request<P = core.ParamsDictionary, ResBody = any, ReqBody = any, ReqQuery = qs.ParsedQs, Locals extends Record<string, any> = Record<string, any>>
-export type ApiEndpointRequest<ReqQuery = any, ReqBody = any, ResBody = any> = Request<
-  any,
+export type ApiEndpointRequest<ReqQuery = any, ReqBody = any, ResBody = any, ReqParams = any> = Request<
+  ReqParams,
   ResBody,
   ReqBody,
   ReqQuery
 > &
-  DirectusEventContext;
+  DirectusEventContext & {
+    /**
+     * Credential used to access the endpoint, set by the endpoint authorization middleware
+     */
+    credential?: EndpointCredential;
+    /**
+     * Raw request body, only available if captured with `captureRawBody`
+     */
+    rawBody?: Buffer;
+  };
 
 export type ApiEndpointResponse = Response;
 
@@ -65,6 +74,11 @@ export type ApiEndpointRouter = Omit<ExpressRouter, 'get' | 'post' | 'put' | 'pa
   put: ApiRouterEndpoint;
   patch: ApiRouterEndpoint;
   delete: ApiRouterEndpoint;
+  /**
+   * Route definition methods that validate params, query and body with given schemas before calling the handlers.
+   * Handler request types are inferred from the schemas, see `createValidatedRouteMethods`
+   */
+  validated: ValidatedRouteMethods;
 };
 
 // export type ApiEndpointRouter = {
@@ -85,7 +99,10 @@ export type DirectusOneToAnyItem = {
 
 import { defineEndpoint as _defineEndpoint, defineHook as _defineHook } from '@directus/extensions';
 import type { NonNull, Refactor } from './types/select.js';
-import { endpointAuth } from './auth.js';
+import { endpointAuth, type EndpointAuthOptions } from './auth.js';
+import { catchAsyncErrors, endpointErrorHandler, type EndpointErrorHandlerOptions } from './http-errors.js';
+import type { EndpointCredential } from './endpoint-credentials.js';
+import { createValidatedRouteMethods, type ValidatedRouteMethods } from './request-validation.js';
 import { createMonitorHook } from './monitor-hook.js';
 
 // Fix the type for `services` in `defineEndpoint` context callback function
@@ -97,17 +114,41 @@ type EndpointExtensionContext = Refactor<
   }
 >;
 
+export type DefineEndpointOptions = EndpointAuthOptions & {
+  /**
+   * Options for converting errors thrown by handlers to responses
+   */
+  errors?: EndpointErrorHandlerOptions;
+};
+
+const ROUTE_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
 /**
  * Wrapper function for `defineEndpoint` imported from `@directus/extensions-sdk`,
  * This wrapper provides better types for the `callback` parameter.
  * Disabled because code needs refactoring: adds endpoint authorization middleware
+ * Errors thrown by (async) handlers are converted to JSON error responses, throw typed errors like `NotFoundError`
+ * to respond with a specific status code.
  * @param callback
+ * @param options endpoint authorization and error handling options, eg `{ cache: false }` to disable caching of endpoint configs in tests
  * @returns
  */
-export function defineEndpoint(callback: (router: ApiEndpointRouter, context: EndpointExtensionContext) => void) {
+export function defineEndpoint(
+  callback: (router: ApiEndpointRouter, context: EndpointExtensionContext) => void,
+  options?: DefineEndpointOptions,
+) {
   return _defineEndpoint((router, directus) => {
-    router.use(endpointAuth(directus)); // Allow authenticated requests only
-    callback(router as any, directus);
+    router.use(endpointAuth(directus, options)); // Allow authenticated requests only
+    const apiRouter = router as unknown as ApiEndpointRouter;
+    // Pass errors of async handlers to the error handler
+    for (const method of ROUTE_METHODS) {
+      const register = apiRouter[method].bind(apiRouter);
+      apiRouter[method] = (route, ...handlers) =>
+        register(route, ...handlers.map((handler) => catchAsyncErrors(handler)));
+    }
+    apiRouter.validated = createValidatedRouteMethods(apiRouter);
+    callback(apiRouter, directus);
+    router.use(endpointErrorHandler(directus, options?.errors));
   });
 }
 
@@ -261,4 +302,46 @@ export interface FivesparkDataHubContext {
   event: DirectusEventContext;
 }
 
-export { elevateRights } from './auth.js';
+export { elevateRights, clearEndpointConfigCache, type EndpointAuthOptions } from './auth.js';
+export {
+  captureRawBody,
+  generateApiKey,
+  hashApiKey,
+  API_KEY_HEADER,
+  HMAC_TIMESTAMP_HEADER,
+  type EndpointCredential,
+} from './endpoint-credentials.js';
+export {
+  cleanupEndpointAccessLog,
+  type EndpointAccessLogOptions,
+  type EndpointAccessDecision,
+  type EndpointAccessReason,
+} from './endpoint-access-log.js';
+export {
+  isIpAllowed,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+  type RateLimitHit,
+  type RateLimitKeyType,
+} from './endpoint-rate-limit.js';
+export {
+  validateRequest,
+  type RequestSchema,
+  type RequestSchemas,
+  type InferRequestSchema,
+  type RequestValidationIssue,
+  type ValidatedRequest,
+  type ValidatedRequestHandler,
+} from './request-validation.js';
+export {
+  BadRequestError,
+  UnauthorizedError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  UpstreamError,
+  ServiceUnavailableError,
+  catchAsyncErrors,
+  endpointErrorHandler,
+  type EndpointErrorHandlerOptions,
+} from './http-errors.js';
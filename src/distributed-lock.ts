@@ -0,0 +1,242 @@
+import { createHash, randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { DirectusRuntimeContext, Knex } from './directus.js';
+import { LockTimeoutError, type AcquireLockOptions, type LockBackend, type LockHandle } from './thread-safe.js';
+
+export type DatabaseLockOptions = {
+  /**
+   * Name of the lock table, it is created automatically if it doesn't exist
+   * @default 'distributed_locks'
+   */
+  table?: string;
+  /**
+   * Time (ms) a lock is valid without a heartbeat. Locks of crashed instances are reclaimed after this time
+   * @default 30000
+   */
+  leaseTime?: number;
+  /**
+   * Time (ms) between heartbeats that extend the leases of held locks
+   * @default leaseTime / 3
+   */
+  heartbeatInterval?: number;
+  /**
+   * Time (ms) to wait before trying to acquire an unavailable lock again
+   * @default 100
+   */
+  retryInterval?: number;
+};
+
+const DEFAULT_LOCK_TABLE = 'distributed_locks';
+const DEFAULT_LEASE_TIME = 30000;
+const DEFAULT_RETRY_INTERVAL = 100;
+const MAX_RETRY_INTERVAL = 1000;
+
+/**
+ * Owner row that is locked (`SELECT ... FOR UPDATE`) to serialize lock requests for a target
+ */
+const ANCHOR_OWNER = '';
+
+/**
+ * Length of the `target` column, longer targets are stored as a hash
+ */
+const MAX_TARGET_LENGTH = 255;
+
+/**
+ * Returns the value stored in the `target` column for a lock target
+ */
+function getTargetKey(target: string) {
+  return target.length > MAX_TARGET_LENGTH ? `sha256:${createHash('sha256').update(target).digest('hex')}` : target;
+}
+
+/**
+ * Lock backend that stores locks in the Directus database, so they are shared between all Directus instances.
+ * Supports shared and exclusive locks like `acquireLock`, but without a queue: waiting requests poll until the lock
+ * is available, so there is no guarantee about the order in which they are granted.
+ * Held locks are kept alive with heartbeats, locks of crashed instances expire after `leaseTime` and are reclaimed.
+ * Targets longer than 255 characters are stored as a SHA-256 hash.
+ * Works with SQLite, PostgreSQL and MySQL.
+ * @example
+ * ```ts
+ * const locks = new DatabaseLockBackend(directus);
+ * const lock = await locks.acquire(`sync:orders:${orderId}`);
+ * try {
+ *   // ...
+ * } finally {
+ *   await lock.release();
+ * }
+ * ```
+ */
+export class DatabaseLockBackend implements LockBackend {
+  private readonly settings: Required<DatabaseLockOptions>;
+
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+
+  private tableReady: Promise<void> | null = null;
+
+  constructor(
+    private readonly directus: DirectusRuntimeContext,
+    options: DatabaseLockOptions = {},
+  ) {
+    const leaseTime = options.leaseTime ?? DEFAULT_LEASE_TIME;
+    this.settings = {
+      table: DEFAULT_LOCK_TABLE,
+      retryInterval: DEFAULT_RETRY_INTERVAL,
+      heartbeatInterval: Math.floor(leaseTime / 3),
+      ...options,
+      leaseTime,
+    };
+  }
+
+  private get knex(): Knex {
+    return this.directus.database;
+  }
+
+  private get isSQLite() {
+    return String(this.knex.client.config.client).includes('sqlite');
+  }
+
+  /**
+   * Creates the lock table if it doesn't exist yet
+   */
+  private ensureTable() {
+    this.tableReady ??= (async () => {
+      const { table } = this.settings;
+      if (await this.knex.schema.hasTable(table)) {
+        return;
+      }
+      try {
+        await this.knex.schema.createTable(table, (t) => {
+          t.string('target', MAX_TARGET_LENGTH).notNullable();
+          t.string('owner', 255).notNullable();
+          t.boolean('shared').notNullable().defaultTo(false);
+          t.bigInteger('expires_at').notNullable();
+          t.primary(['target', 'owner']);
+        });
+      } catch (err) {
+        // Created by another instance in the meantime?
+        if (!(await this.knex.schema.hasTable(table))) {
+          throw err;
+        }
+      }
+    })().catch((err) => {
+      this.tableReady = null;
+      throw err;
+    });
+    return this.tableReady;
+  }
+
+  /**
+   * Creates (if needed) and locks the anchor row of a target, so concurrent requests for the same target are handled
+   * one by one
+   */
+  private async lockAnchor(trx: Knex.Transaction, target: string) {
+    const { table } = this.settings;
+    if (this.isSQLite) {
+      // SQLite doesn't support row locks, but only allows a single writing transaction anyway
+      await trx(table)
+        .insert({ target, owner: ANCHOR_OWNER, shared: false, expires_at: 0 })
+        .onConflict(['target', 'owner'])
+        .ignore();
+      return;
+    }
+    // The anchor can be removed by a release in the meantime, create it again in that case
+    let anchor;
+    do {
+      await trx(table)
+        .insert({ target, owner: ANCHOR_OWNER, shared: false, expires_at: 0 })
+        .onConflict(['target', 'owner'])
+        .ignore();
+      anchor = await trx(table).where({ target, owner: ANCHOR_OWNER }).forUpdate().first();
+    } while (!anchor);
+  }
+
+  /**
+   * Tries to acquire a lock once
+   * @returns whether the lock was acquired
+   */
+  private async tryAcquire(target: string, owner: string, shared: boolean) {
+    const { table, leaseTime } = this.settings;
+    return this.knex.transaction(async (trx) => {
+      await this.lockAnchor(trx, target);
+
+      // Reclaim expired leases of crashed instances
+      const now = Date.now();
+      await trx(table).where('target', target).whereNot('owner', ANCHOR_OWNER).where('expires_at', '<', now).delete();
+
+      const holders = (await trx(table)
+        .where('target', target)
+        .whereNot('owner', ANCHOR_OWNER)
+        .select('shared')) as Array<{ shared: boolean | number | string }>;
+      const granted = holders.length === 0 || (shared && holders.every((holder) => Boolean(Number(holder.shared))));
+      if (granted) {
+        await trx(table).insert({ target, owner, shared, expires_at: now + leaseTime });
+      }
+      return granted;
+    });
+  }
+
+  async acquire(
+    target: string,
+    shared = false,
+    options: Pick<AcquireLockOptions, 'timeout' | 'signal'> = {},
+  ): Promise<LockHandle> {
+    const { timeout, signal } = options;
+    signal?.throwIfAborted();
+    await this.ensureTable();
+    const { table, leaseTime, heartbeatInterval } = this.settings;
+    const owner = `${this.instanceId}:${randomUUID()}`;
+    const targetKey = getTargetKey(target);
+    const started = Date.now();
+    let retryInterval = this.settings.retryInterval;
+    while (!(await this.tryAcquire(targetKey, owner, shared))) {
+      signal?.throwIfAborted();
+      if (typeof timeout === 'number' && Date.now() - started >= timeout) {
+        throw new LockTimeoutError(target, timeout);
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryInterval));
+      retryInterval = Math.min(retryInterval * 2, Math.max(MAX_RETRY_INTERVAL, this.settings.retryInterval));
+    }
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const updated = await this.knex(table)
+          .where({ target: targetKey, owner })
+          .update({ expires_at: Date.now() + leaseTime });
+        if (updated === 0) {
+          this.directus.logger.warn(`DatabaseLockBackend: Lease of lock on "${target}" was lost`);
+        }
+      } catch (err: any) {
+        this.directus.logger.error(
+          `DatabaseLockBackend: Failed to extend lease of lock on "${target}": ${err?.message ?? err}`,
+        );
+      }
+    }, heartbeatInterval);
+    heartbeat.unref?.(); // Don't keep the process alive for held locks
+
+    let released = false;
+    return {
+      target,
+      shared,
+      release: async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        clearInterval(heartbeat);
+        await this.knex.transaction(async (trx) => {
+          await this.lockAnchor(trx, targetKey);
+          await trx(table).where({ target: targetKey, owner }).delete();
+          const holder = await trx(table)
+            .where('target', targetKey)
+            .whereNot('owner', ANCHOR_OWNER)
+            .where('expires_at', '>=', Date.now())
+            .first();
+          if (!holder) {
+            // Remove the anchor (and expired leases) of targets that are no longer locked, so the table doesn't grow
+            await trx(table).where('target', targetKey).delete();
+          }
+        });
+      },
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import type { DirectusRuntimeContext } from './directus.js';
+import type { EndpointAccessLogItem } from './types/items.js';
+
+export type EndpointAccessDecision = 'allowed' | 'denied';
+
+/**
+ * Why access to an endpoint was granted or denied
+ */
+export type EndpointAccessReason =
+  // Allowed
+  | 'public'
+  | 'user'
+  | 'api_key'
+  | 'hmac'
+  // Denied
+  | 'unconfigured'
+  | 'disabled'
+  | 'not_authorized'
+  | 'ip_not_allowed'
+  | 'rate_limited'
+  | 'error';
+
+export type EndpointAccessLogEntry = {
+  endpoint: string;
+  method: string;
+  user: string | null;
+  role: string | null;
+  /** Name of the API key or HMAC credential used */
+  credential: string | null;
+  ip: string | null;
+  decision: EndpointAccessDecision;
+  reason: EndpointAccessReason;
+  /** Details, eg the error message of a denied request */
+  message: string | null;
+  /** HTTP status code of the response, only known for allowed requests */
+  status_code: number | null;
+  /** Time (ms) it took to authorize (denied requests) or handle (allowed requests) the request */
+  latency: number;
+};
+
+export type EndpointAccessLogOptions = {
+  /**
+   * Fraction (0-1) of allowed requests to log. Denied requests are always logged.
+   * @default 0
+   */
+  sampleAllowed?: number;
+  /**
+   * Time (ms) to buffer entries before writing them to the database in a single batch
+   * @default 5000
+   */
+  flushInterval?: number;
+  /**
+   * Maximum number of buffered entries, the buffer is flushed immediately when reached
+   * @default 100
+   */
+  maxBufferSize?: number;
+  /**
+   * Number of days to keep log entries. Older entries are removed automatically once a day.
+   * Set to `0` to keep entries forever, or use `cleanupEndpointAccessLog` in a schedule hook instead.
+   * @default 0
+   */
+  retentionDays?: number;
+};
+
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_BUFFER_SIZE = 100;
+const ONE_DAY = 1000 * 60 * 60 * 24;
+const MAX_MESSAGE_LENGTH = 255;
+
+/**
+ * Removes entries older than given amount of days from the `endpoint_access_log` collection.
+ * Can be used in a schedule hook:
+ * @example
+ * ```ts
+ * export default defineHook(({ schedule }, directus) => {
+ *   schedule('0 3 * * *', () => cleanupEndpointAccessLog(directus, 30));
+ * });
+ * ```
+ * @param directus the directus context
+ * @param retentionDays number of days to keep
+ * @returns primary keys of removed entries
+ */
+export async function cleanupEndpointAccessLog(directus: DirectusRuntimeContext, retentionDays: number) {
+  const schema = await directus.getSchema();
+  const logService = new directus.services.ItemsService<EndpointAccessLogItem>('endpoint_access_log', { schema });
+  const before = new Date(Date.now() - retentionDays * ONE_DAY).toISOString();
+  return logService.deleteByQuery({ filter: { timestamp: { _lt: before } } }, { emitEvents: false });
+}
+
+/**
+ * Creates a logger that writes endpoint access entries to the `endpoint_access_log` collection.
+ * Entries are buffered and written in batches in the background, so logging never slows down requests.
+ * Failing writes are logged to the console, never thrown.
+ *
+ * In order for this to work, you have to create a collection called `endpoint_access_log` in your Directus project,
+ * you can merge the "collections" and "fields" entries from access-log.schema.json into your own schema.json file,
+ * or call `ensureSchema(directus, { schemas: ['access-log'] })` from a hook's `init` event to create it automatically
+ * @param directus the directus context
+ * @param options logging options
+ */
+export function createEndpointAccessLogger(directus: DirectusRuntimeContext, options: EndpointAccessLogOptions = {}) {
+  const settings = {
+    sampleAllowed: 0,
+    flushInterval: DEFAULT_FLUSH_INTERVAL,
+    maxBufferSize: DEFAULT_MAX_BUFFER_SIZE,
+    retentionDays: 0,
+    ...options,
+  };
+  let buffer = [] as Array<EndpointAccessLogEntry & { timestamp: string }>;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastCleanup = 0;
+
+  async function flush() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (buffer.length === 0) {
+      return;
+    }
+    const entries = buffer;
+    buffer = [];
+    try {
+      const schema = await directus.getSchema();
+      const logService = new directus.services.ItemsService<EndpointAccessLogItem>('endpoint_access_log', { schema });
+      await logService.createMany(entries, { emitEvents: false });
+
+      if (settings.retentionDays > 0 && Date.now() - lastCleanup > ONE_DAY) {
+        lastCleanup = Date.now();
+        await cleanupEndpointAccessLog(directus, settings.retentionDays);
+      }
+    } catch (err: any) {
+      directus.logger.error(`endpointAuth: Failed to write ${entries.length} access log entries: ${err?.message ?? err}`);
+    }
+  }
+
+  return {
+    /**
+     * Whether an allowed request should be logged, based on the configured sample rate
+     */
+    shouldLogAllowed() {
+      return settings.sampleAllowed > 0 && Math.random() < settings.sampleAllowed;
+    },
+
+    /**
+     * Adds an entry to the buffer, it will be written to the database in the background
+     */
+    log(entry: EndpointAccessLogEntry) {
+      buffer.push({
+        ...entry,
+        message: entry.message?.slice(0, MAX_MESSAGE_LENGTH) ?? null,
+        timestamp: new Date().toISOString(),
+      });
+      if (buffer.length >= settings.maxBufferSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, settings.flushInterval);
+        timer.unref?.(); // Don't keep the process alive for pending log entries
+      }
+    },
+
+    /**
+     * Writes all buffered entries to the database
+     */
+    flush,
+  };
+}
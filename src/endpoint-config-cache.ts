@@ -0,0 +1,97 @@
+import type { DirectusRuntimeContext } from './directus.js';
+
+/**
+ * Collections that hold endpoint authorization config. Any mutation to these invalidates the cache
+ */
+const ENDPOINT_CONFIG_COLLECTIONS = [
+  'config_endpoints',
+  'config_endpoints_directus_roles',
+  'config_endpoints_directus_users',
+  'config_endpoint_credentials',
+  'config_endpoints_config_endpoint_credentials',
+];
+
+/**
+ * Default time (ms) cached endpoint configs are kept, in case an invalidating action hook was missed
+ * (eg when the database was changed directly or by another Directus instance)
+ */
+export const DEFAULT_ENDPOINT_CONFIG_CACHE_TTL = 1000 * 60 * 5;
+
+/**
+ * In-memory cache for resolved endpoint configs. Concurrent requests share a single pending load.
+ */
+export class EndpointConfigCache<T> {
+  private configs: T[] | null = null;
+
+  private expires = 0;
+
+  private loading: Promise<T[]> | null = null;
+
+  /**
+   * Incremented on every invalidation, so loads that started before an invalidation are not stored
+   */
+  private generation = 0;
+
+  /**
+   * Gets cached configs, or loads them if the cache is empty or expired
+   * @param ttl time (ms) to keep loaded configs
+   * @param load callback that loads the configs from the database
+   */
+  async get(ttl: number, load: () => Promise<T[]>): Promise<T[]> {
+    if (this.configs && Date.now() < this.expires) {
+      return this.configs;
+    }
+    if (!this.loading) {
+      const generation = this.generation;
+      const loading: Promise<T[]> = load()
+        .then((configs) => {
+          if (generation === this.generation) {
+            this.configs = configs;
+            this.expires = Date.now() + ttl;
+          }
+          return configs;
+        })
+        .finally(() => {
+          // Don't clear a newer load that was started after `invalidate`
+          if (this.loading === loading) {
+            this.loading = null;
+          }
+        });
+      this.loading = loading;
+    }
+    return this.loading;
+  }
+
+  /**
+   * Removes all cached configs, next `get` call will load them again
+   */
+  invalidate() {
+    this.generation++;
+    this.configs = null;
+    this.loading = null;
+  }
+}
+
+const registeredEmitters = new WeakSet<object>();
+
+/**
+ * Registers action hooks on the endpoint config collections that invalidate the given cache.
+ * Hooks are only registered once per emitter.
+ * @param directus the directus context, must contain the `emitter`
+ * @param cache the cache to invalidate
+ */
+export function registerEndpointConfigInvalidation(directus: DirectusRuntimeContext, cache: EndpointConfigCache<any>) {
+  const { emitter, logger } = directus;
+  if (!emitter || registeredEmitters.has(emitter)) {
+    return;
+  }
+  registeredEmitters.add(emitter);
+  for (const collection of ENDPOINT_CONFIG_COLLECTIONS) {
+    for (const event of ['create', 'update', 'delete']) {
+      emitter.onAction(`${collection}.items.${event}`, () => {
+        logger.debug(`endpointAuth: Invalidating endpoint config cache after ${collection}.items.${event}`);
+        cache.invalidate();
+      });
+    }
+  }
+}
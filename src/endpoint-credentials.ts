@@ -0,0 +1,242 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { DirectusRuntimeContext } from './directus.js';
+import type { ConfigEndpointCredentialsItem } from './types/items.js';
+import type { Select } from './types/select.js';
+
+/**
+ * Credential that was used to access a custom endpoint, available as `req.credential` in endpoint handlers
+ */
+export type EndpointCredential =
+  | {
+      /** Endpoint allows public access, request was not authenticated */
+      type: 'public';
+    }
+  | {
+      /** Authenticated Directus user */
+      type: 'directus';
+      user: string | null;
+      role: string | null;
+    }
+  | {
+      /** Named API key or HMAC secret from `config_endpoint_credentials` */
+      type: 'api_key' | 'hmac';
+      id: number;
+      name: string;
+    };
+
+export type EndpointCredentialConfig = Select<
+  ConfigEndpointCredentialsItem,
+  'id' | 'name' | 'type' | 'status',
+  'key_hash' | 'secret' | 'hmac_header' | 'hmac_algorithm' | 'hmac_tolerance' | 'expires_at'
+>;
+
+/**
+ * Header API keys have to be sent in. Not using the `Authorization` header because Directus
+ * would try to validate its value as a Directus token
+ */
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Header containing the unix timestamp (seconds) a HMAC signed request was signed at
+ */
+export const HMAC_TIMESTAMP_HEADER = 'x-timestamp';
+
+const DEFAULT_HMAC_HEADER = 'x-signature';
+const DEFAULT_HMAC_ALGORITHM = 'sha256';
+const DEFAULT_HMAC_TOLERANCE = 300;
+const HASH_PREFIX = 'sha256:';
+const API_KEY_BYTES = 32;
+
+/**
+ * Hashes an API key so it can be stored in `config_endpoint_credentials.key_hash`
+ * @param key plain text API key
+ * @returns prefixed hash of the key
+ */
+export function hashApiKey(key: string) {
+  return `${HASH_PREFIX}${createHash('sha256').update(key).digest('hex')}`;
+}
+
+/**
+ * Generates a new random API key
+ * @returns the plain text key to hand out to the integration, and its hash to store in `config_endpoint_credentials`
+ */
+export function generateApiKey() {
+  const key = randomBytes(API_KEY_BYTES).toString('base64url');
+  return { key, hash: hashApiKey(key) };
+}
+
+function safeEqual(a: string, b: string) {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+function isUsable(credential: EndpointCredentialConfig) {
+  return (
+    credential.status === 'enabled' &&
+    (!credential.expires_at || new Date(credential.expires_at).getTime() > Date.now())
+  );
+}
+
+/**
+ * Finds the API key credential matching the key sent in the `x-api-key` header
+ * @param req the request
+ * @param credentials credentials configured for the requested endpoint
+ * @returns the matching credential, or `undefined` if no (valid) key was sent
+ */
+export function verifyApiKey(req: Request, credentials: EndpointCredentialConfig[]) {
+  const key = req.headers[API_KEY_HEADER];
+  if (typeof key !== 'string' || key.length === 0) {
+    return undefined;
+  }
+  const hash = hashApiKey(key);
+  return credentials.find(
+    (credential) =>
+      credential.type === 'api_key' && isUsable(credential) && !!credential.key_hash && safeEqual(credential.key_hash, hash),
+  );
+}
+
+/**
+ * Finds the HMAC credential whose secret was used to sign the request.
+ * The signature must be the hex encoded HMAC of `${timestamp}.${rawBody}`, sent in the credential's `hmac_header`
+ * (optionally prefixed with the algorithm, eg `sha256=...`). The timestamp (unix seconds) must be sent in the
+ * `x-timestamp` header and be within `hmac_tolerance` seconds of the server time, to prevent replays.
+ * Requires the raw request body to be captured, see `captureRawBody`.
+ * @param req the request
+ * @param credentials credentials configured for the requested endpoint
+ * @returns the matching credential, or `undefined` if the request was not (validly) signed
+ */
+export function verifyHmacSignature(req: Request & { rawBody?: Buffer }, credentials: EndpointCredentialConfig[]) {
+  const timestamp = req.headers[HMAC_TIMESTAMP_HEADER];
+  for (const credential of credentials) {
+    if (credential.type !== 'hmac' || !isUsable(credential) || !credential.secret) {
+      continue;
+    }
+    const header = req.headers[(credential.hmac_header ?? DEFAULT_HMAC_HEADER).toLowerCase()];
+    if (typeof header !== 'string') {
+      continue;
+    }
+    if (typeof timestamp !== 'string' || !/^\d+$/.test(timestamp)) {
+      throw new Error(`Missing or invalid ${HMAC_TIMESTAMP_HEADER} header for HMAC signed request`);
+    }
+    const tolerance = credential.hmac_tolerance ?? DEFAULT_HMAC_TOLERANCE;
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > tolerance) {
+      throw new Error(`HMAC signature timestamp ${timestamp} is outside the allowed tolerance of ${tolerance}s`);
+    }
+    if (!req.rawBody && req.body && Object.keys(req.body).length > 0) {
+      throw new Error('Raw request body was not captured, cannot verify HMAC signature. See captureRawBody');
+    }
+    const algorithm = credential.hmac_algorithm ?? DEFAULT_HMAC_ALGORITHM;
+    const signature = header.startsWith(`${algorithm}=`) ? header.slice(algorithm.length + 1) : header;
+    const expected = createHmac(algorithm, credential.secret)
+      .update(`${timestamp}.`)
+      .update(req.rawBody ?? Buffer.alloc(0))
+      .digest('hex');
+    if (safeEqual(signature.toLowerCase(), expected)) {
+      return credential;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns a middleware that keeps the raw JSON request body as `req.rawBody`, which is required to verify HMAC signatures.
+ * The body is also parsed, so Directus' own JSON body parser skips the request.
+ * Register it in a hook extension before Directus adds its own middleware:
+ * @example
+ * ```ts
+ * export default defineHook(({ init }) => {
+ *   init('middlewares.before', ({ app }) => app.use(captureRawBody()));
+ * });
+ * ```
+ * @param limit maximum body size in bytes
+ */
+export function captureRawBody(limit = 1024 * 1024) {
+  return function rawBodyMiddleware(req: Request & { rawBody?: Buffer; _body?: boolean }, res: Response, next: NextFunction) {
+    const contentType = req.headers['content-type'] ?? '';
+    if (req._body || !/^application\/([\w.-]+\+)?json/i.test(contentType)) {
+      next();
+      return;
+    }
+    const chunks = [] as Buffer[];
+    let size = 0;
+    let failed = false;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit && !failed) {
+        failed = true;
+        next(new Error(`Request body exceeds limit of ${limit} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (failed) {
+        return;
+      }
+      req.rawBody = Buffer.concat(chunks);
+      try {
+        req.body = req.rawBody.length > 0 ? JSON.parse(req.rawBody.toString('utf8')) : {};
+        req._body = true; // Tells body-parser the body has already been parsed
+        next();
+      } catch (err: any) {
+        next(err);
+      }
+    });
+    req.on('error', (err) => next(err));
+  };
+}
+
+const hashingEmitters = new WeakSet<object>();
+
+/**
+ * Registers a filter hook that hashes plain text API keys entered in `config_endpoint_credentials.key_hash`,
+ * so keys are never stored as plain text. Hooks are only registered once per emitter.
+ * @param directus the directus context, must contain the `emitter`
+ */
+export function registerApiKeyHashing(directus: DirectusRuntimeContext) {
+  const { emitter } = directus;
+  if (!emitter || hashingEmitters.has(emitter)) {
+    return;
+  }
+  hashingEmitters.add(emitter);
+  for (const event of ['create', 'update']) {
+    emitter.onFilter(`config_endpoint_credentials.items.${event}`, (payload: Partial<ConfigEndpointCredentialsItem>) => {
+      if (typeof payload.key_hash === 'string' && payload.key_hash && !payload.key_hash.startsWith(HASH_PREFIX)) {
+        return { ...payload, key_hash: hashApiKey(payload.key_hash) };
+      }
+      return payload;
+    });
+  }
+}
+
+/**
+ * Minimum time (ms) between `last_used_at` updates of the same credential, to prevent a database write on every request
+ */
+const LAST_USED_UPDATE_INTERVAL = 1000 * 60;
+const lastUsedUpdates = new Map<number, number>();
+
+/**
+ * Updates `last_used_at` of a credential in the background. Errors are logged, never thrown.
+ * @param directus the directus context
+ * @param credential the credential that was used
+ */
+export function touchCredential(directus: DirectusRuntimeContext, credential: EndpointCredentialConfig) {
+  const now = Date.now();
+  if (now - (lastUsedUpdates.get(credential.id) ?? 0) < LAST_USED_UPDATE_INTERVAL) {
+    return;
+  }
+  lastUsedUpdates.set(credential.id, now);
+  (async () => {
+    const schema = await directus.getSchema();
+    const credentialsService = new directus.services.ItemsService<ConfigEndpointCredentialsItem>(
+      'config_endpoint_credentials',
+      { schema },
+    );
+    // Don't emit events: that would invalidate the endpoint config cache
+    await credentialsService.updateOne(credential.id, { last_used_at: new Date().toISOString() }, { emitEvents: false });
+  })().catch((err) => {
+    directus.logger.error(`endpointAuth: Failed to update last_used_at of credential ${credential.name}: ${err?.message ?? err}`);
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * HTTP methods that can be configured on a `config_endpoints` row
+ */
+export type EndpointHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Segment ranks used to determine how specific a pattern is. Higher is more specific.
+ */
+const SEGMENT_RANK = {
+  static: 3,
+  param: 2,
+  optionalParam: 1,
+  wildcard: 0,
+};
+
+type CompiledPattern = { regex: RegExp; params: string[]; specificity: number[] };
+const compiledPatterns = new Map<string, CompiledPattern>();
+
+/**
+ * Removes the query string and any trailing slash from an url, so it can be matched against endpoint patterns
+ */
+export function normalizeEndpointPath(url: string) {
+  const path = url.split('?').shift() as string;
+  return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+function compilePattern(pattern: string): CompiledPattern {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+  const escape = (str: string) => str.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  const params = [] as string[];
+  const specificity = [] as number[];
+  let source = '';
+  // Not using normalizeEndpointPath here, `?` marks optional parameters in patterns
+  const trimmed = pattern.length > 1 && pattern.endsWith('/') ? pattern.slice(0, -1) : pattern;
+  const segments = trimmed.split('/').slice(1);
+  for (const segment of segments) {
+    if (segment === '*') {
+      params.push('*');
+      specificity.push(SEGMENT_RANK.wildcard);
+      source += '/(.*)';
+    } else if (segment.startsWith(':') && segment.endsWith('?')) {
+      params.push(segment.slice(1, -1));
+      specificity.push(SEGMENT_RANK.optionalParam);
+      source += '(?:/([^/]+))?';
+    } else if (segment.startsWith(':')) {
+      params.push(segment.slice(1));
+      specificity.push(SEGMENT_RANK.param);
+      source += '/([^/]+)';
+    } else {
+      specificity.push(SEGMENT_RANK.static);
+      source += `/${segment.split('*').map(escape).join('[^/]*')}`;
+    }
+  }
+  const compiled = { regex: new RegExp(`^${source || '/'}$`), params, specificity };
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Matches an url path against an Express-style endpoint pattern.
+ * Supported syntax:
+ * - `/sync/orders/:id`: named parameter, matches a single path segment
+ * - `/sync/orders/:id?`: optional named parameter
+ * - `/reports/*`: wildcard, matches anything (including slashes)
+ * - `/reports/export-*`: partial wildcard within a single path segment
+ *
+ * @param pattern endpoint pattern, eg `/sync/orders/:id`
+ * @param path url path without query string, eg `/sync/orders/12`
+ * @returns the matched parameters, or `null` if the path does not match the pattern
+ */
+export function matchEndpointPattern(pattern: string, path: string): Record<string, string> | null {
+  const { regex, params } = compilePattern(pattern);
+  const match = regex.exec(normalizeEndpointPath(path));
+  if (!match) {
+    return null;
+  }
+  return params.reduce(
+    (result, param, index) => {
+      const value = match[index + 1];
+      if (typeof value !== 'undefined') {
+        result[param] = decodeURIComponent(value);
+      }
+      return result;
+    },
+    {} as Record<string, string>,
+  );
+}
+
+/**
+ * Compares the specificity of 2 endpoint patterns, can be used as `Array.sort` callback.
+ * Static segments are more specific than parameters, parameters more specific than wildcards.
+ * If all compared segments are equal, the pattern with the most segments wins.
+ * @returns a negative number if `a` is more specific than `b`, a positive number if `b` is more specific, or 0 if equal
+ */
+export function compareEndpointPatterns(a: string, b: string) {
+  const specificityA = compilePattern(a).specificity;
+  const specificityB = compilePattern(b).specificity;
+  for (let i = 0; i < Math.min(specificityA.length, specificityB.length); i++) {
+    if (specificityA[i] !== specificityB[i]) {
+      return specificityB[i]! - specificityA[i]!;
+    }
+  }
+  return specificityB.length - specificityA.length;
+}
+
+/**
+ * Finds the most specific endpoint config for a request.
+ * Configs that list HTTP methods only match requests with one of those methods, and take precedence
+ * over configs with the same pattern that do not list any methods (these match all methods).
+ * @param configs endpoint configs to choose from
+ * @param path url path of the request
+ * @param method HTTP method of the request
+ * @returns the most specific matching config, or `undefined` if none match
+ */
+export function findEndpointConfig<T extends { endpoint: string; methods?: string[] | null }>(
+  configs: T[],
+  path: string,
+  method: string,
+): T | undefined {
+  const hasMethods = (config: T) => (config.methods?.length ?? 0) > 0;
+  return configs
+    .filter((config) => !hasMethods(config) || config.methods!.includes(method.toUpperCase()))
+    .filter((config) => matchEndpointPattern(config.endpoint, path) !== null)
+    .sort(
+      (a, b) => compareEndpointPatterns(a.endpoint, b.endpoint) || Number(hasMethods(b)) - Number(hasMethods(a)),
+    )
+    .shift();
+}
@@ -0,0 +1,108 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * What requests are counted together for rate limiting:
+ * - `auto`: per user or API credential if the request is authenticated, per IP address otherwise
+ * - `user`: per Directus user (unauthenticated requests share a single counter)
+ * - `credential`: per API key or HMAC credential (other requests share a single counter)
+ * - `ip`: per IP address
+ */
+export type RateLimitKeyType = 'auto' | 'user' | 'credential' | 'ip';
+
+export type RateLimitHit = {
+  /** Number of hits in the current window, including this one */
+  count: number;
+  /** Timestamp (ms) the current window ends */
+  resetAt: number;
+};
+
+/**
+ * Storage for rate limit counters. The default `MemoryRateLimitStore` keeps counters per process,
+ * implement this interface to share counters between multiple Directus instances (eg using Redis).
+ */
+export interface RateLimitStore {
+  /**
+   * Registers a hit for given key
+   * @param key key to count hits for
+   * @param windowMs length of the window (ms)
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Fixed window rate limit store that keeps counters in memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitHit>();
+
+  private lastCleanup = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.cleanup(now, windowMs);
+    const counter = this.counters.get(key);
+    if (counter && counter.resetAt > now) {
+      counter.count++;
+      return { ...counter };
+    }
+    const newCounter = { count: 1, resetAt: now + windowMs };
+    this.counters.set(key, newCounter);
+    return { ...newCounter };
+  }
+
+  /**
+   * Removes expired counters, at most once per window
+   */
+  private cleanup(now: number, windowMs: number) {
+    if (now - this.lastCleanup < windowMs) {
+      return;
+    }
+    this.lastCleanup = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+const blockLists = new Map<string, BlockList>();
+
+function getBlockList(allowlist: string[]) {
+  const cacheKey = allowlist.join(',');
+  const cached = blockLists.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  const list = new BlockList();
+  for (const entry of allowlist) {
+    const [address, prefix] = entry.trim().split('/') as [string, string | undefined];
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (isIP(address) === 0) {
+      throw new Error(`Invalid IP address in allowlist: ${entry}`);
+    }
+    if (typeof prefix === 'undefined') {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, Number(prefix), type);
+    }
+  }
+  blockLists.set(cacheKey, list);
+  return list;
+}
+
+/**
+ * Checks whether an IP address is in an allowlist of IP addresses and/or CIDR ranges
+ * @param ip IP address of the request, IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`) are supported
+ * @param allowlist addresses and CIDR ranges, eg `['10.0.0.0/8', '2001:db8::/32', '192.168.1.10']`
+ * @returns true if the address is allowed
+ */
+export function isIpAllowed(ip: string | null | undefined, allowlist: string[]) {
+  if (!ip) {
+    return false;
+  }
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  const address = mapped ? mapped[1]! : ip;
+  const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+  return isIP(address) !== 0 && getBlockList(allowlist).check(address, type);
+}
@@ -0,0 +1,272 @@
+import type { FieldsService, RawCollection, RelationsService } from '@directus/api/services/index';
+import type { FieldMeta, RawField, Relation, RelationMeta, Type } from '@directus/types';
+import type { DirectusRuntimeContext } from './directus.js';
+import authSchema from './auth.schema.json' with { type: 'json' };
+import errorsSchema from './errors.schema.json' with { type: 'json' };
+import accessLogSchema from './access-log.schema.json' with { type: 'json' };
+import monitorOutboxSchema from './monitor-outbox.schema.json' with { type: 'json' };
+import fieldHistorySchema from './field-history.schema.json' with { type: 'json' };
+
+/**
+ * Schema snapshot in the format of Directus' `schema.json` files
+ */
+export type SchemaSnapshot = {
+  collections: Array<{ collection: string; meta: RawCollection['meta']; schema: RawCollection['schema'] }>;
+  fields: Array<{
+    collection: string;
+    field: string;
+    type: Type;
+    meta: Partial<FieldMeta> | null;
+    schema?: RawField['schema'] | null;
+  }>;
+  relations?: Array<{
+    collection: string;
+    field: string;
+    related_collection: string | null;
+    meta: Partial<RelationMeta> | null;
+    schema: Partial<NonNullable<Relation['schema']>> | null;
+  }>;
+};
+
+/**
+ * Payloads of `FieldsService.createField` and `RelationsService.createOne`. Directus types their `meta` (and `schema`)
+ * as complete rows, but fills in missing properties like the generated `id`
+ */
+type CreateFieldPayload = Parameters<FieldsService['createField']>[1];
+type CreateRelationPayload = Parameters<RelationsService['createOne']>[0];
+
+/**
+ * Schema snapshots bundled with this package
+ */
+export const BUNDLED_SCHEMAS = {
+  /** `config_endpoints` and related collections used by `endpointAuth` */
+  auth: authSchema as SchemaSnapshot,
+  /** `sync_errors` collection used by `logSyncError` */
+  errors: errorsSchema as SchemaSnapshot,
+  /** `endpoint_access_log` collection used by the `accessLog` option of `endpointAuth` */
+  'access-log': accessLogSchema as SchemaSnapshot,
+  /** `monitor_outbox` collection used by the `durable` option of `monitor` hooks */
+  'monitor-outbox': monitorOutboxSchema as SchemaSnapshot,
+  /** `field_changes` collection used by `registerFieldHistory` */
+  'field-history': fieldHistorySchema as SchemaSnapshot,
+};
+
+export type SchemaChange = {
+  type: 'collection' | 'field' | 'relation';
+  collection: string;
+  field?: string;
+  description: string;
+};
+
+export type EnsureSchemaOptions = {
+  /**
+   * Which bundled schemas to provision, or custom snapshots
+   * @default ['auth', 'errors']
+   */
+  schemas?: Array<keyof typeof BUNDLED_SCHEMAS | SchemaSnapshot>;
+  /**
+   * Only report what would change, don't change anything
+   * @default false
+   */
+  dryRun?: boolean;
+};
+
+export type EnsureSchemaResult = {
+  /** Changes made, or that would be made in dry-run mode */
+  changes: SchemaChange[];
+  /** Existing collections, fields or relations that are incompatible with the snapshots */
+  incompatibilities: string[];
+};
+
+/**
+ * Field types that are stored in compatible ways. Types can be reported differently depending on the database vendor
+ */
+const TYPE_GROUPS = [
+  ['string', 'text', 'uuid', 'hash', 'csv'],
+  ['integer', 'bigInteger', 'float', 'decimal'],
+  ['timestamp', 'dateTime', 'date', 'time'],
+];
+
+function isCompatibleType(expected: string, actual: string) {
+  return expected === actual || TYPE_GROUPS.some((group) => group.includes(expected) && group.includes(actual));
+}
+
+/**
+ * Removes snapshot properties that must not be passed to the FieldsService
+ */
+function sanitizeField(field: SchemaSnapshot['fields'][number]): RawField {
+  if (!field.schema) {
+    return { field: field.field, type: field.type, meta: field.meta };
+  }
+  const { table, name, data_type, foreign_key_table, foreign_key_column, ...schema } = field.schema;
+  if (schema.has_auto_increment) {
+    // Default values like "nextval('..._id_seq'::regclass)" are vendor specific, the database will set them
+    delete schema.default_value;
+  }
+  return { field: field.field, type: field.type, meta: field.meta, schema };
+}
+
+/**
+ * Merges snapshots into one, collections, fields and relations that are in multiple snapshots are only kept once
+ */
+function mergeSnapshots(snapshots: SchemaSnapshot[]): Required<SchemaSnapshot> {
+  const collections = new Map<string, SchemaSnapshot['collections'][number]>();
+  const fields = new Map<string, SchemaSnapshot['fields'][number]>();
+  const relations = new Map<string, NonNullable<SchemaSnapshot['relations']>[number]>();
+  for (const snapshot of snapshots) {
+    for (const collection of snapshot.collections) {
+      if (!collections.has(collection.collection)) {
+        collections.set(collection.collection, collection);
+      }
+    }
+    for (const field of snapshot.fields) {
+      if (!fields.has(`${field.collection}.${field.field}`)) {
+        fields.set(`${field.collection}.${field.field}`, field);
+      }
+    }
+    for (const relation of snapshot.relations ?? []) {
+      if (!relations.has(`${relation.collection}.${relation.field}`)) {
+        relations.set(`${relation.collection}.${relation.field}`, relation);
+      }
+    }
+  }
+  return { collections: [...collections.values()], fields: [...fields.values()], relations: [...relations.values()] };
+}
+
+/**
+ * Makes sure the collections, fields and relations of given schema snapshots exist in the database.
+ * Missing collections, fields and relations are created, existing ones are never changed or removed.
+ * Changes are applied one by one, not in a single transaction: schema changes can't be rolled back on every database
+ * (eg MySQL commits them implicitly). If applying them fails halfway, fix the cause and call it again, it continues
+ * with the changes that are still missing.
+ * Call it from a hook's `init` event so the schema is available before endpoints and hooks need it:
+ * @example
+ * ```ts
+ * export default defineHook(({ init }, directus) => {
+ *   init('app.before', async () => {
+ *     await ensureSchema(directus, { schemas: ['auth', 'errors', 'access-log'] });
+ *   });
+ * });
+ * ```
+ * @param directus the directus context
+ * @param options which schemas to provision, and whether to do a dry run
+ * @returns the (planned) changes and any incompatibilities found
+ * @throws if the existing schema is incompatible with the snapshots (unless `dryRun` is set), nothing is changed in that case
+ */
+export async function ensureSchema(
+  directus: DirectusRuntimeContext,
+  options: EnsureSchemaOptions = {},
+): Promise<EnsureSchemaResult> {
+  const { logger, services, database } = directus;
+  const snapshot = mergeSnapshots(
+    (options.schemas ?? ['auth', 'errors']).map((snapshot) =>
+      typeof snapshot === 'string' ? BUNDLED_SCHEMAS[snapshot] : snapshot,
+    ),
+  );
+  let schema = await directus.getSchema();
+  const changes = [] as SchemaChange[];
+  const incompatibilities = [] as string[];
+  const newCollections = [] as Array<SchemaSnapshot['collections'][number] & { fields: SchemaSnapshot['fields'] }>;
+  const newFields = [] as SchemaSnapshot['fields'];
+  const newRelations = [] as NonNullable<SchemaSnapshot['relations']>;
+
+  for (const collection of snapshot.collections) {
+    if (!schema.collections[collection.collection]) {
+      const fields = snapshot.fields.filter((field) => field.collection === collection.collection);
+      newCollections.push({ ...collection, fields });
+      changes.push({
+        type: 'collection',
+        collection: collection.collection,
+        description: `Create collection ${collection.collection} with fields ${fields.map((f) => f.field).join(', ')}`,
+      });
+    }
+  }
+  for (const field of snapshot.fields) {
+    const collectionInfo = schema.collections[field.collection];
+    if (!collectionInfo) {
+      // Created along with its collection
+      continue;
+    }
+    const fieldInfo = collectionInfo.fields[field.field];
+    if (!fieldInfo) {
+      newFields.push(field);
+      changes.push({
+        type: 'field',
+        collection: field.collection,
+        field: field.field,
+        description: `Create field ${field.collection}.${field.field} (${field.type})`,
+      });
+    } else if (!isCompatibleType(field.type, fieldInfo.type)) {
+      incompatibilities.push(
+        `Field ${field.collection}.${field.field} has type ${fieldInfo.type}, expected ${field.type}`,
+      );
+    }
+  }
+  for (const relation of snapshot.relations ?? []) {
+    const existing = schema.relations.find(
+      (rel) => rel.collection === relation.collection && rel.field === relation.field,
+    );
+    if (!existing) {
+      newRelations.push(relation);
+      changes.push({
+        type: 'relation',
+        collection: relation.collection,
+        field: relation.field,
+        description: `Create relation ${relation.collection}.${relation.field} -> ${relation.related_collection}`,
+      });
+    } else if (existing.related_collection !== relation.related_collection) {
+      incompatibilities.push(
+        `Field ${relation.collection}.${relation.field} relates to ${existing.related_collection}, expected ${relation.related_collection}`,
+      );
+    }
+  }
+
+  for (const change of changes) {
+    logger.info(`ensureSchema: ${options.dryRun ? '[dry-run] ' : ''}${change.description}`);
+  }
+  if (incompatibilities.length > 0) {
+    const message = `ensureSchema: Existing schema is incompatible:\n- ${incompatibilities.join('\n- ')}`;
+    if (!options.dryRun) {
+      throw new Error(message);
+    }
+    logger.warn(message);
+  }
+  if (options.dryRun || changes.length === 0) {
+    return { changes, incompatibilities };
+  }
+
+  if (newCollections.length > 0) {
+    const collectionsService = new services.CollectionsService({ schema, knex: database });
+    for (const collection of newCollections) {
+      await collectionsService.createOne({
+        collection: collection.collection,
+        meta: collection.meta,
+        schema: collection.schema ?? {},
+        fields: collection.fields.map(sanitizeField),
+      });
+    }
+  }
+  if (newFields.length > 0) {
+    const fieldsService = new services.FieldsService({ schema, knex: database });
+    for (const field of newFields) {
+      await fieldsService.createField(field.collection, sanitizeField(field) as CreateFieldPayload);
+    }
+  }
+  if (newRelations.length > 0) {
+    // Reload the schema, relations can only be created between existing collections and fields
+    schema = await directus.getSchema({ database });
+    const relationsService = new services.RelationsService({ schema, knex: database });
+    for (const relation of newRelations) {
+      await relationsService.createOne({
+        collection: relation.collection,
+        field: relation.field,
+        related_collection: relation.related_collection,
+        meta: relation.meta,
+        schema: relation.schema ? { on_delete: relation.schema.on_delete, on_update: relation.schema.on_update } : null,
+      } as CreateRelationPayload);
+    }
+  }
+
+  logger.info(`ensureSchema: Applied ${changes.length} schema changes`);
+  return { changes, incompatibilities };
+}
@@ -22,9 +22,9 @@ export interface SyncErrorDetails {
   sourceCollection: string | string[];
 
   /**
-   * Id of the item from source being synced
+   * Id of the item from source being synced, if known
    */
-  sourceId: string | number;
+  sourceId?: string | number;
 
   /**
    * Target service
@@ -70,6 +70,7 @@ const MAX_MESSAGE_LENGTH = 255;
  * - stack_trace: string
  * - debug_data: json
  * You can also merge the "collections" and "fields" entries from errors.schema.json into your own schema.json file
+ * or call `ensureSchema(directus)` from a hook's `init` event to create them automatically
  * @param directus
  * @param details
  */
@@ -79,7 +80,7 @@ export async function logSyncError(directus: DirectusRuntimeContext, details: Sy
     (details.customMessage ? `${details.customMessage} | ` : '') +
     (details.error instanceof Error ? details.error.message : details.error);
   directus.logger.error(
-    `SYNC ERROR: ${details.sourceService}.${details.sourceCollection} (id ${details.sourceId}) -> ${
+    `SYNC ERROR: ${details.sourceService}.${details.sourceCollection} (id ${details.sourceId ?? 'null'}) -> ${
       details.targetService
     }.${details.targetCollection} (id ${details.targetId ?? 'null'}): ${message}`,
   );
@@ -91,7 +92,7 @@ export async function logSyncError(directus: DirectusRuntimeContext, details: Sy
   try {
     await errorsItemService.createOne({
       source: `${details.sourceService}.${details.sourceCollection}`,
-      source_id: details.sourceId.toString(),
+      source_id: details.sourceId?.toString() ?? null,
       target: `${details.targetService}.${details.targetCollection}`,
       target_id: details.targetId?.toString() ?? null,
       message: message.slice(0, MAX_MESSAGE_LENGTH),
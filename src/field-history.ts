@@ -0,0 +1,196 @@
+import type { DirectusRuntimeContext, Item, PrimaryKey } from './directus.js';
+import type { createMonitorHook, FivesparkMonitorHook } from './monitor-hook.js';
+import type { MonitorOutboxOptions } from './monitor-outbox.js';
+import type { FieldChangesItem } from './types/items.js';
+
+export type FieldHistoryOptions = {
+  /**
+   * Fields to track per collection. Pass an empty array to track all fields of a collection
+   * @example
+   * { customers: ['credit_limit', 'status'], orders: [] }
+   */
+  collections: Record<string, string[]>;
+  /**
+   * Which events to track
+   * @default ['create', 'update', 'delete']
+   */
+  events?: Array<'create' | 'update' | 'delete'>;
+  /**
+   * Whether to write changes through the monitor outbox, so they are not lost if writing fails or Directus restarts.
+   * The monitors are named `field-history:<collection>`
+   * @default false
+   */
+  durable?: boolean | Omit<MonitorOutboxOptions, 'name'>;
+  /**
+   * Number of days to keep changes. Older changes are removed automatically once a day.
+   * Set to `0` to keep changes forever, or use `cleanupFieldChanges` in a schedule hook instead.
+   * @default 0
+   */
+  retentionDays?: number;
+};
+
+const FIELD_CHANGES_COLLECTION = 'field_changes';
+const ONE_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Removes changes older than given amount of days from the `field_changes` collection.
+ * Can be used in a schedule hook:
+ * @example
+ * ```ts
+ * export default defineHook(({ schedule }, directus) => {
+ *   schedule('0 3 * * *', () => cleanupFieldChanges(directus, 365));
+ * });
+ * ```
+ * @param directus the directus context
+ * @param retentionDays number of days to keep
+ * @returns primary keys of removed changes
+ */
+export async function cleanupFieldChanges(directus: DirectusRuntimeContext, retentionDays: number) {
+  const schema = await directus.getSchema();
+  const changesService = new directus.services.ItemsService<FieldChangesItem>(FIELD_CHANGES_COLLECTION, { schema });
+  const before = new Date(Date.now() - retentionDays * ONE_DAY).toISOString();
+  return changesService.deleteByQuery({ filter: { timestamp: { _lt: before } }, limit: -1 }, { emitEvents: false });
+}
+
+/**
+ * Registers monitor hooks that write every change of given fields to the `field_changes` collection, one row per
+ * changed field with its previous and current value, the user that made the change and when.
+ * Created items get a row per field with a `null` previous value, deleted items a row per field with a `null` current value.
+ *
+ * In order for this to work, you have to create a collection called `field_changes` in your Directus project,
+ * you can merge the "collections" and "fields" entries from field-history.schema.json into your own schema.json file,
+ * or call `ensureSchema(directus, { schemas: ['field-history'] })` from a hook's `init` event to create it automatically
+ * @example
+ * ```ts
+ * export default defineHook(({ monitor }, directus) => {
+ *   registerFieldHistory(monitor, directus, { collections: { customers: ['credit_limit', 'status'] }, retentionDays: 730 });
+ * });
+ * ```
+ * @param monitor the `monitor` register function passed to `defineHook`
+ * @param directus the directus context
+ * @param options collections and fields to track, and retention
+ * @returns the registered monitor hooks per collection
+ */
+export function registerFieldHistory(
+  monitor: ReturnType<typeof createMonitorHook>,
+  directus: DirectusRuntimeContext,
+  options: FieldHistoryOptions,
+) {
+  const settings = {
+    events: ['create', 'update', 'delete'] as NonNullable<FieldHistoryOptions['events']>,
+    durable: false as NonNullable<FieldHistoryOptions['durable']>,
+    retentionDays: 0,
+    ...options,
+  };
+  let lastCleanup = 0;
+
+  return Object.fromEntries(
+    Object.entries(settings.collections).map(([collection, fields]) => [
+      collection,
+      monitor(
+        collection,
+        {
+          fields,
+          events: settings.events,
+          // Changes must be recorded regardless of the permissions of the user making them
+          useAccountability: false,
+          durable: settings.durable
+            ? { ...(settings.durable === true ? {} : settings.durable), name: `field-history:${collection}` }
+            : undefined,
+        },
+        async (mutations, meta, context) => {
+          const user = context.accountability?.user ?? null;
+          const changes = mutations.flatMap((mutation) => {
+            const changedFields = Object.keys(mutation.action === 'delete' ? mutation.previous : mutation.current);
+            return changedFields.map((field) => ({
+              collection,
+              item: `${mutation.key}`,
+              field,
+              event: mutation.action,
+              previous: mutation.action === 'create' ? null : (mutation.previous[field] ?? null),
+              current: mutation.action === 'delete' ? null : (mutation.current[field] ?? null),
+              user,
+              timestamp: mutation.timestamp,
+            }));
+          });
+          if (changes.length === 0) {
+            return;
+          }
+          const schema = await directus.getSchema();
+          const changesService = new directus.services.ItemsService<FieldChangesItem>(FIELD_CHANGES_COLLECTION, {
+            schema,
+          });
+          await changesService.createMany(changes, { emitEvents: false });
+
+          if (settings.retentionDays > 0 && Date.now() - lastCleanup > ONE_DAY) {
+            lastCleanup = Date.now();
+            cleanupFieldChanges(directus, settings.retentionDays).catch((err) =>
+              directus.logger.error(`registerFieldHistory: Failed to remove old changes: ${err?.message ?? err}`),
+            );
+          }
+        },
+      ),
+    ]),
+  ) as Record<string, FivesparkMonitorHook>;
+}
+
+/**
+ * Reconstructs the values of an item at a point in time, by reverting the changes recorded in the `field_changes`
+ * collection since then. Fields without recorded changes (eg fields that are not tracked) have their current value
+ * @example
+ * ```ts
+ * const customer = await getItemAt(directus, 'customers', 12, '2024-01-01T00:00:00Z', { fields: ['credit_limit'] });
+ * ```
+ * @param directus the directus context
+ * @param collection collection of the item
+ * @param key primary key of the item
+ * @param at point in time
+ * @param options fields to return, all fields by default
+ * @returns the values of the item at the given time, or `null` if it didn't exist at that time
+ */
+export async function getItemAt(
+  directus: DirectusRuntimeContext,
+  collection: string,
+  key: PrimaryKey,
+  at: Date | string,
+  options: { fields?: string[] } = {},
+): Promise<Item | null> {
+  const schema = await directus.getSchema();
+  const primaryKeyField = schema.collections[collection]?.primary;
+  if (!primaryKeyField) {
+    throw new Error(`getItemAt: Collection ${collection} does not exist`);
+  }
+  const itemsService = new directus.services.ItemsService(collection, { schema });
+  const changesService = new directus.services.ItemsService<FieldChangesItem>(FIELD_CHANGES_COLLECTION, { schema });
+  const [current, changes] = await Promise.all([
+    itemsService.readMany([key], { fields: options.fields ?? ['*'], limit: 1 }).then((items) => items[0] ?? null),
+    changesService.readByQuery({
+      filter: {
+        collection: { _eq: collection },
+        item: { _eq: `${key}` },
+        timestamp: { _gt: new Date(at).toISOString() },
+      },
+      // Newest first, so they can be reverted in reverse order
+      sort: ['-timestamp', '-id'],
+      limit: -1,
+    }),
+  ]);
+
+  // Deleted items are restored from the values recorded by their delete event
+  let item = current ? ({ ...current } as Item) : changes.some((change) => change.event === 'delete') ? {} : null;
+  for (const change of changes) {
+    if (change.event === 'create') {
+      // Created after the given time
+      item = null;
+      continue;
+    }
+    item ??= {};
+    if (!options.fields || options.fields.includes(change.field) || options.fields.includes('*')) {
+      item[change.field] = change.previous;
+    }
+  }
+  if (item && (!options.fields || options.fields.includes(primaryKeyField) || options.fields.includes('*'))) {
+    item[primaryKeyField] = current?.[primaryKeyField] ?? key;
+  }
+  return item;
+}
@@ -0,0 +1,151 @@
+import { createError, isDirectusError } from '@directus/errors';
+import type { NextFunction, Request, Response } from 'express';
+import type { ApiEndpointRequest, DirectusRuntimeContext } from './directus.js';
+import { logSyncError } from './errors.js';
+import { HTTP_STATUS } from './http-status-codes.js';
+
+/**
+ * Typed errors that can be thrown from custom endpoint handlers. `defineEndpoint` converts them to a response with
+ * the matching HTTP status code and a JSON body in Directus' error format:
+ * ```json
+ * { "errors": [{ "message": "Order 12 not found", "extensions": { "code": "NOT_FOUND", "resource": "Order", "id": 12 } }] }
+ * ```
+ * @example
+ * ```ts
+ * router.get('/orders/:id', async (req, res) => {
+ *   const order = await getOrder(req.params.id);
+ *   if (!order) {
+ *     throw new NotFoundError({ resource: 'Order', id: req.params.id });
+ *   }
+ *   res.json(order);
+ * });
+ * ```
+ */
+export const BadRequestError = createError<{ reason: string }>(
+  'BAD_REQUEST',
+  ({ reason }) => reason,
+  HTTP_STATUS.BAD_REQUEST,
+);
+
+export const UnauthorizedError = createError<{ reason: string } | void>(
+  'UNAUTHORIZED',
+  (extensions) => extensions?.reason ?? 'Unauthorized',
+  HTTP_STATUS.UNAUTHORIZED,
+);
+
+export const NotFoundError = createError<{ resource: string; id?: string | number }>(
+  'NOT_FOUND',
+  ({ resource, id }) => (typeof id === 'undefined' ? `${resource} not found` : `${resource} ${id} not found`),
+  HTTP_STATUS.NOT_FOUND,
+);
+
+/**
+ * Invalid input, uses the same code as the issues reported by `validateRequest`
+ */
+export const ValidationError = createError<{ field?: string; reason: string }>(
+  'INVALID_REQUEST',
+  ({ field, reason }) => (field ? `Invalid value for ${field}: ${reason}` : reason),
+  HTTP_STATUS.BAD_REQUEST,
+);
+
+export const ConflictError = createError<{ reason: string }>('CONFLICT', ({ reason }) => reason, HTTP_STATUS.CONFLICT);
+
+/**
+ * An external service (eg the ERP) returned an error or an unexpected response
+ */
+export const UpstreamError = createError<{ service: string; reason?: string }>(
+  'UPSTREAM_ERROR',
+  ({ service, reason }) => `${service} error${reason ? `: ${reason}` : ''}`,
+  HTTP_STATUS.BAD_GATEWAY,
+);
+
+/**
+ * A service (eg the ERP) is temporarily unavailable, the client may retry later
+ */
+export const ServiceUnavailableError = createError<{ service: string; reason?: string }>(
+  'SERVICE_UNAVAILABLE',
+  ({ service, reason }) => `${service} is unavailable${reason ? `: ${reason}` : ''}`,
+  HTTP_STATUS.SERVICE_UNAVAILABLE,
+);
+
+export type EndpointErrorHandlerOptions = {
+  /**
+   * Whether to include messages and stack traces of unexpected (non-typed) errors in responses.
+   * Defaults to `true` unless `NODE_ENV` is `production`
+   */
+  exposeInternals?: boolean;
+  /**
+   * Whether to log server errors (5xx) to the `sync_errors` collection using `logSyncError`
+   * @default false
+   */
+  logServerErrors?: boolean;
+};
+
+const INTERNAL_ERROR_MESSAGE = 'An unexpected error occurred';
+
+/**
+ * Wraps a route handler so rejected promises are passed to `next`, instead of causing unhandled rejections
+ */
+export function catchAsyncErrors<T extends (req: any, res: any, next: NextFunction) => any>(handler: T): T {
+  return function asyncHandler(req: any, res: any, next: NextFunction) {
+    try {
+      const result = handler(req, res, next);
+      if (result instanceof Promise) {
+        result.catch(next);
+      }
+      return result;
+    } catch (err) {
+      next(err);
+    }
+  } as T;
+}
+
+/**
+ * Returns an error handling middleware that converts errors thrown by endpoint handlers to JSON error responses.
+ * Typed errors (created with `createError`, like `NotFoundError`) get their own status code and message,
+ * other errors result in a 500 response that hides the error details unless `exposeInternals` is set.
+ * @param directus the directus context
+ * @param options error handling options
+ * @returns an error handling middleware function
+ */
+export function endpointErrorHandler(directus: DirectusRuntimeContext, options: EndpointErrorHandlerOptions = {}) {
+  const exposeInternals =
+    options.exposeInternals ?? (directus.env['NODE_ENV'] ?? process.env['NODE_ENV']) !== 'production';
+
+  return function errorHandlerMiddleware(error: any, req: Request, res: Response, next: NextFunction) {
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+    const isTyped = isDirectusError(error);
+    const status = isTyped ? error.status : HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    const message = isTyped || exposeInternals ? (error?.message ?? `${error}`) : INTERNAL_ERROR_MESSAGE;
+    const extensions = {
+      ...(isTyped ? (error.extensions as Record<string, unknown>) : {}),
+      code: isTyped ? error.code : 'INTERNAL_SERVER_ERROR',
+      ...(exposeInternals && error instanceof Error && error.stack ? { stack: error.stack } : {}),
+    };
+
+    if (status >= HTTP_STATUS.INTERNAL_SERVER_ERROR) {
+      directus.logger.error(`Error in endpoint ${req.method} ${req.originalUrl}: ${error?.stack ?? error}`);
+      if (options.logServerErrors) {
+        const { query, accountability } = req as ApiEndpointRequest;
+        // Route params are not available to a router level error handler, use the id of typed errors if they have one
+        const id = isTyped ? (error.extensions as { id?: string | number } | undefined)?.id : undefined;
+        logSyncError(directus, {
+          sourceService: 'endpoint',
+          sourceCollection: `${req.method} ${req.path}`,
+          sourceId: id,
+          targetService: 'directus',
+          targetCollection: req.baseUrl,
+          error: error instanceof Error ? error : `${error}`,
+          debugData: { url: req.originalUrl, query, user: accountability?.user ?? null, status },
+        }).catch((logErr) =>
+          directus.logger.error(`endpointErrorHandler: Failed to log sync error: ${logErr?.message ?? logErr}`),
+        );
+      }
+    }
+
+    res.status(status).json({ errors: [{ message, extensions }] });
+  };
+}
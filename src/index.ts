@@ -4,4 +4,9 @@ export type * from './types/select.js';
 export * from './errors.js';
 export * from './http-status-codes.js';
 export * from './thread-safe.js';
+export * from './distributed-lock.js';
+export * from './job-queue.js';
+export * from './ensure-schema.js';
+export * from './monitor-outbox.js';
+export * from './field-history.js';
 export type * from './monitor-hook.js';
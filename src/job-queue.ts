@@ -0,0 +1,306 @@
+import type { DirectusRuntimeContext } from './directus.js';
+import { logSyncError, type SyncErrorDetails } from './errors.js';
+import { LockTimeoutError } from './thread-safe.js';
+
+export type JobQueueOptions = {
+  /**
+   * Name of the queue, used in log messages and as default source of sync errors
+   * @default 'job-queue'
+   */
+  name?: string;
+  /**
+   * Maximum number of jobs to run at the same time
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Number of times to retry a job that failed with a transient error
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * Time (ms) to wait before the first retry, doubled for every next retry
+   * @default 1000
+   */
+  retryDelay?: number;
+  /**
+   * Maximum time (ms) to wait before a retry
+   * @default 30000
+   */
+  maxRetryDelay?: number;
+  /**
+   * Determines whether a failed job should be retried. By default network errors, timeouts, HTTP 429 and 5xx
+   * responses are considered transient
+   */
+  isTransient?: (error: any) => boolean;
+};
+
+export type JobOptions = {
+  /**
+   * Jobs with the same key never run at the same time, eg `orders:12`
+   */
+  key?: string;
+  /**
+   * Jobs with a higher priority run first, jobs with the same priority in the order they were added
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * Number of times to retry this job, overrides the queue's `retries` option
+   */
+  retries?: number;
+  /**
+   * Identifiers of the synced item, used to log a sync error when the job fails after all retries.
+   * Defaults to the queue name and job key
+   */
+  syncError?: Omit<SyncErrorDetails, 'error'>;
+};
+
+type Job = {
+  id: number;
+  fn: () => Promise<unknown>;
+  options: JobOptions;
+  attempt: number;
+  /** Whether this job is being retried, it keeps its key reserved while waiting */
+  retrying: boolean;
+  resolve(result: unknown): void;
+  reject(error: unknown): void;
+};
+
+const DEFAULT_QUEUE_NAME = 'job-queue';
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND'];
+
+/**
+ * Default check for transient errors: network errors, timeouts, HTTP 429 (too many requests) and 5xx responses
+ */
+export function isTransientError(error: any) {
+  if (error instanceof LockTimeoutError || TRANSIENT_ERROR_CODES.includes(error?.code)) {
+    return true;
+  }
+  const status = Number(error?.status ?? error?.statusCode ?? error?.response?.status);
+  return status === 429 || (status >= 500 && status < 600);
+}
+
+/**
+ * Queue that runs async jobs with limited concurrency, eg to sync items without overloading an external API.
+ * Jobs with the same key are never run at the same time, jobs failing with transient errors are retried with
+ * exponential backoff, and jobs that keep failing are logged with `logSyncError`.
+ * @example
+ * ```ts
+ * const queue = new JobQueue(directus, { name: 'afas-sync', concurrency: 5 });
+ * for (const order of orders) {
+ *   queue.add(() => syncOrder(order), {
+ *     key: `orders:${order.id}`,
+ *     syncError: { sourceService: 'afas', sourceCollection: 'orders', sourceId: order.id, targetService: 'directus', targetCollection: 'orders' },
+ *   });
+ * }
+ * await queue.drain();
+ * ```
+ */
+export class JobQueue {
+  private readonly settings: Required<JobQueueOptions>;
+
+  private queue = [] as Job[];
+
+  private activeKeys = new Set<string>();
+
+  private running = 0;
+
+  private waiting = 0;
+
+  private lastId = 0;
+
+  private _paused = false;
+
+  private drainResolvers = [] as Array<() => void>;
+
+  constructor(
+    private readonly directus: DirectusRuntimeContext,
+    options: JobQueueOptions = {},
+  ) {
+    this.settings = {
+      name: DEFAULT_QUEUE_NAME,
+      concurrency: DEFAULT_CONCURRENCY,
+      retries: DEFAULT_RETRIES,
+      retryDelay: DEFAULT_RETRY_DELAY,
+      maxRetryDelay: DEFAULT_MAX_RETRY_DELAY,
+      isTransient: isTransientError,
+      ...options,
+    };
+  }
+
+  /**
+   * Number of jobs waiting to run, including jobs waiting for a retry
+   */
+  get size() {
+    return this.queue.length + this.waiting;
+  }
+
+  /**
+   * Number of jobs currently running
+   */
+  get pending() {
+    return this.running;
+  }
+
+  get paused() {
+    return this._paused;
+  }
+
+  /**
+   * Adds a job to the queue
+   * @param fn function that performs the job
+   * @param options job key, priority, retries and sync error details
+   * @returns a promise that resolves with the result of the job, or rejects with its error once all retries failed
+   */
+  add<T>(fn: () => T | Promise<T>, options: JobOptions = {}): Promise<T> {
+    const promise = new Promise<T>((resolve, reject) => {
+      this.enqueue({
+        id: ++this.lastId,
+        fn: async () => fn(),
+        options,
+        attempt: 0,
+        retrying: false,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+    });
+    // Failed jobs are logged already, prevent unhandled rejections if the caller doesn't handle them
+    promise.catch(() => {});
+    this.next();
+    return promise;
+  }
+
+  /**
+   * Stops starting new jobs, running jobs are not interrupted
+   */
+  pause() {
+    this._paused = true;
+    this.next();
+  }
+
+  /**
+   * Continues starting jobs after `pause()`
+   */
+  resume() {
+    this._paused = false;
+    this.next();
+  }
+
+  /**
+   * Waits until all jobs are done, including jobs that are added in the meantime.
+   * While paused, it only waits for running jobs: queued jobs (and jobs waiting for a retry) are left for `resume()`
+   */
+  drain() {
+    if (this.isDrained()) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => this.drainResolvers.push(resolve));
+  }
+
+  private isDrained() {
+    return this.running === 0 && (this._paused || (this.queue.length === 0 && this.waiting === 0));
+  }
+
+  /**
+   * Inserts a job in the queue, after jobs with the same or a higher priority
+   */
+  private enqueue(job: Job) {
+    const priority = job.options.priority ?? 0;
+    const index = this.queue.findIndex((queued) => (queued.options.priority ?? 0) < priority);
+    if (index < 0) {
+      this.queue.push(job);
+    } else {
+      this.queue.splice(index, 0, job);
+    }
+  }
+
+  /**
+   * Starts as many jobs as allowed
+   */
+  private next() {
+    while (!this._paused && this.running < this.settings.concurrency) {
+      const index = this.queue.findIndex(
+        (job) => !job.options.key || job.retrying || !this.activeKeys.has(job.options.key),
+      );
+      if (index < 0) {
+        break;
+      }
+      const [job] = this.queue.splice(index, 1) as [Job];
+      this.run(job);
+    }
+    if (this.isDrained()) {
+      this.drainResolvers.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  private async run(job: Job) {
+    const { key } = job.options;
+    if (key) {
+      this.activeKeys.add(key);
+    }
+    this.running++;
+    job.attempt++;
+    try {
+      const result = await job.fn();
+      this.finish(job);
+      job.resolve(result);
+    } catch (err) {
+      const retries = job.options.retries ?? this.settings.retries;
+      if (job.attempt <= retries && this.settings.isTransient(err)) {
+        this.retry(job, err);
+      } else {
+        this.finish(job);
+        this.fail(job, err);
+      }
+    } finally {
+      this.running--;
+      this.next();
+    }
+  }
+
+  private finish(job: Job) {
+    if (job.options.key) {
+      this.activeKeys.delete(job.options.key);
+    }
+  }
+
+  /**
+   * Schedules a retry, the job keeps its key reserved so other jobs with the same key don't overtake it
+   */
+  private retry(job: Job, err: any) {
+    const { retryDelay, maxRetryDelay, name } = this.settings;
+    const delay = Math.min(retryDelay * 2 ** (job.attempt - 1), maxRetryDelay);
+    this.directus.logger.warn(
+      `${name}: Job ${job.options.key ?? job.id} failed (attempt ${job.attempt}), retrying in ${delay}ms: ${err?.message ?? err}`,
+    );
+    this.waiting++;
+    job.retrying = true;
+    setTimeout(() => {
+      this.waiting--;
+      this.enqueue(job);
+      this.next();
+    }, delay);
+  }
+
+  private fail(job: Job, err: any) {
+    const { name } = this.settings;
+    const details = job.options.syncError ?? {
+      sourceService: name,
+      sourceCollection: 'jobs',
+      sourceId: job.options.key ?? job.id,
+      targetService: name,
+      targetCollection: 'jobs',
+    };
+    logSyncError(this.directus, {
+      ...details,
+      error: err instanceof Error ? err : String(err),
+      debugData: { ...details.debugData, queue: name, job: job.id, key: job.options.key, attempts: job.attempt },
+    }).catch((logErr) => this.directus.logger.error(`${name}: Failed to log sync error: ${logErr?.message ?? logErr}`));
+    job.reject(err);
+  }
+}
@@ -1,158 +1,585 @@
-import type { DirectusRuntimeContext, FivesparkDataHubContext, MutationOptions, Item, PrimaryKey, FieldFilter } from './directus.js';
+import { isDirectusError } from '@directus/errors';
+import type {
+  Knex,
+  DirectusRuntimeContext,
+  DirectusEventContext,
+  FivesparkDataHubContext,
+  MutationOptions,
+  Item,
+  PrimaryKey,
+  FieldFilter,
+} from './directus.js';
+import { MemoryLockBackend, type LockBackend } from './thread-safe.js';
+
+type SchemaOverview = DirectusEventContext['schema'];
+type ItemsService = InstanceType<DirectusRuntimeContext['services']['ItemsService']>;
+
+export type MinimalUpsertAction = 'create' | 'update' | 'none';
 
 /**
- * Performs a minimal update to an existing item by checking which fields will actually change.
- * Creates the item if it doesn't exist, does nothing if there are no effective changes.
+ * A changed value of an upserted item
  */
-export async function minimalUpsert<T extends Item>(
-  context: FivesparkDataHubContext,
-  service: InstanceType<DirectusRuntimeContext['services']['ItemsService']>,
-  data: Partial<T>,
-  pkFilter?: FieldFilter,
-  options?: MutationOptions,
-) {
-  const collectionInfo = context.event.schema.collections[service.collection]!;
-  const pkField = collectionInfo.primary;
-  if (pkFilter && pkField in pkFilter && typeof pkFilter[pkField] === 'undefined') {
-    delete pkFilter[pkField];
+export type MinimalUpsertChange = {
+  /**
+   * Dot-notated path to the changed value, eg `status` or `customer.name`. o2m items are identified by their
+   * primary key (`lines.12.quantity`), new o2m items by their index in the update (`lines.3.quantity`)
+   */
+  path: string;
+  /** Current value, `undefined` for new items and values */
+  previous: unknown;
+  /** New value */
+  value: unknown;
+};
+
+/**
+ * What to do with existing o2m items that are missing from an update in replace mode:
+ * - `delete`: delete them
+ * - `detach`: set their foreign key to `null`
+ * - `archive`: set the archive field of their collection to its archive value
+ */
+export type MinimalUpsertReplaceAction = 'delete' | 'detach' | 'archive';
+
+/**
+ * Existing o2m items that were removed in replace mode
+ */
+export type MinimalUpsertRemoval = {
+  /** Path of the o2m field, without array indexes, eg `lines` or `lines.components` */
+  path: string;
+  /** Collection of the removed items */
+  collection: string;
+  /** Foreign key field of the removed items */
+  foreignKey: string;
+  action: MinimalUpsertReplaceAction;
+  /** Primary keys of the removed items */
+  keys: PrimaryKey[];
+};
+
+export type MinimalUpsertResult = {
+  /** Primary key of the item, `null` for items without a primary key value that would be created in dry-run mode */
+  key: PrimaryKey | null;
+  action: MinimalUpsertAction;
+  /** Changed values, only set if the `diff` or `dryRun` option is enabled */
+  diff?: MinimalUpsertChange[];
+  /** o2m items that were (or would be, in dry-run mode) removed, only set for fields in `replace` mode */
+  removed?: MinimalUpsertRemoval[];
+};
+
+export type MinimalUpsertOptions = {
+  /**
+   * Whether to return the changed values with the result
+   * @default false
+   */
+  diff?: boolean;
+  /**
+   * Only determine the action and changed values, don't create or update anything. Implies `diff`
+   * @default false
+   */
+  dryRun?: boolean;
+  /**
+   * o2m fields to treat as authoritative, and what to do with existing items that are missing from the update.
+   * Use dot-notated paths without array indexes for nested o2m fields, eg `{ lines: 'delete', 'lines.components': 'detach' }`.
+   * Other o2m fields only update the items that are present in both the current item and the update
+   */
+  replace?: Record<string, MinimalUpsertReplaceAction>;
+  /**
+   * Field(s) to match nested o2m items on instead of their primary key, per o2m field path (without array indexes),
+   * eg `{ lines: 'afas_id', 'lines.components': ['article', 'position'] }`. The primary keys of matching existing
+   * items are added to the update, items without a match are created
+   */
+  relationKeys?: Record<string, string | string[]>;
+  /**
+   * Comparison rules per field path (without array indexes), eg `{ name: { ignoreCase: true }, last_synced_at: 'ignore' }`.
+   * Fields without a rule are compared by their type
+   */
+  fieldRules?: Record<string, MinimalUpsertFieldRule>;
+};
+
+/**
+ * How to compare the current and new value of a field. `'ignore'` never treats the field as changed,
+ * so it is only written when an item is created
+ */
+export type MinimalUpsertFieldRule =
+  | 'ignore'
+  | {
+      /** Compare strings case-insensitively */
+      ignoreCase?: boolean;
+      /** Ignore leading, trailing and repeated whitespace in strings */
+      ignoreWhitespace?: boolean;
+      /** Treat empty strings and `null` as equal */
+      emptyAsNull?: boolean;
+      /** Maximum difference between numbers that are considered equal, eg `0.005` */
+      tolerance?: number;
+      /** Compare objects (eg json values) regardless of the order of their keys */
+      ignoreKeyOrder?: boolean;
+      /** Custom comparison, overrides all other rules */
+      equals?: (current: any, value: any) => boolean;
+    };
+
+export type MinimalUpsertConcurrencyOptions = {
+  /**
+   * Serialize upserts of the same item (by collection and primary key or `pkFilter`), so concurrent calls can't both
+   * create it. `true` locks within this process, pass a `DatabaseLockBackend` to lock across Directus instances
+   * @default false
+   */
+  lock?: boolean | LockBackend;
+  /**
+   * When creating the item fails because of a unique constraint (eg it was created by another process in the meantime),
+   * read it again and update it instead. Inside a transaction, the item is created in a savepoint so the transaction
+   * can be continued after a conflict
+   * @default false
+   */
+  retryOnConflict?: boolean;
+};
+
+type CompareOptions = Pick<MinimalUpsertOptions, 'replace' | 'relationKeys' | 'fieldRules'>;
+
+/**
+ * Returns the combined (string) values of given fields of an item, or `null` if any of them has no value
+ */
+function getMatchKey(item: Item, fields: string[]) {
+  return fields.some((field) => typeof item[field] === 'undefined' || item[field] === null)
+    ? null
+    : JSON.stringify(fields.map((field) => String(item[field])));
+}
+
+/**
+ * Clones data to avoid modifying the original
+ */
+function cloneDeep(val: any): any {
+  // Not using --> return JSON.parse(JSON.stringify(obj)); // <-- because that could change the types of some values (eg Dates)
+  if (val instanceof Array) {
+    return val.map((item: any) => cloneDeep(item));
   }
-  if (Object.keys(pkFilter ?? {}).length === 0) {
-    pkFilter = undefined;
+  if (typeof val !== 'object' || val === null || val instanceof Date) {
+    return val;
   }
-
-  // Clone the data to avoid modifying the original
-  function cloneDeep(val: any): any {
-    // Not using --> return JSON.parse(JSON.stringify(obj)); // <-- because that could change the types of some values (eg Dates)
-    if (val instanceof Array) {
-      return val.map((item: any) => cloneDeep(item));
+  const result = {} as Record<string, unknown>;
+  for (const key of Object.keys(val)) {
+    const value = val[key];
+    if (typeof value === 'undefined') {
+      // Don't copy undefined values
+      continue;
     }
-    if (typeof val !== 'object' || val === null) {
-      return val;
-    }
-    const result = {} as Record<string, unknown>;
-    for (const key of Object.keys(val)) {
-      const value = val[key];
-      if (typeof value === 'undefined') {
-        // Don't copy undefined values
-        continue;
-      }
-      if (typeof value === 'object' && value !== null) {
-        result[key] = cloneDeep(value as Record<string, unknown>);
-      } else {
-        result[key] = value;
-      }
+    if (typeof value === 'object' && value !== null) {
+      result[key] = cloneDeep(value as Record<string, unknown>);
+    } else {
+      result[key] = value;
     }
-    return result;
   }
-  const update = cloneDeep(data);
+  return result;
+}
 
-  // Check if there are any relational fields being updated
-  function getUpdateInfo(collection: string, obj: Record<string, unknown>) {
-    const result = { fields: [] as string[], filter: {} as FieldFilter, deep: {} as any };
-    const collectionInfo = context.event.schema.collections[collection]!;
-    const isArray = obj instanceof Array;
-    const fields = isArray // array of objects in o2m relations
-      ? obj.reduce((fields, item) => {
-          Object.keys(item).forEach((key) => fields.includes(key) || fields.push(key));
-          return fields;
-        }, [] as string[])
-      : Object.keys(obj);
-    const pkField = collectionInfo.primary;
-    for (const field of fields) {
-      const items = isArray ? obj : [obj];
-      for (const item of items) {
-        const value = item[field];
-        if (field === pkField && typeof value !== 'undefined') {
-          // Add it to the filter
-          if (isArray) {
-            if (result.filter[field]) {
-              (result.filter[field] as any)._in.push(value as PrimaryKey);
-            } else {
-              result.filter[field] = { _in: [value as PrimaryKey] };
-            }
+type UpdateInfo = { fields: string[]; filter: FieldFilter; deep: any };
+
+/**
+ * Determines which fields (including relational fields) must be loaded to compare an update with the current item
+ */
+function getUpdateInfo(
+  schema: SchemaOverview,
+  collection: string,
+  obj: Record<string, unknown>,
+  options: CompareOptions = {},
+  path?: string,
+) {
+  const { replace = {}, relationKeys = {} } = options;
+  const result: UpdateInfo = { fields: [], filter: {}, deep: {} };
+  const collectionInfo = schema.collections[collection]!;
+  const isArray = obj instanceof Array;
+  const fields = isArray // array of objects in o2m relations
+    ? obj.reduce((fields, item) => {
+        Object.keys(item).forEach((key) => fields.includes(key) || fields.push(key));
+        return fields;
+      }, [] as string[])
+    : Object.keys(obj);
+  const pkField = collectionInfo.primary;
+  for (const field of fields) {
+    const items = isArray ? obj : [obj];
+    for (const item of items) {
+      const value = item[field];
+      if (field === pkField && typeof value !== 'undefined') {
+        // Add it to the filter
+        if (isArray) {
+          if (result.filter[field]) {
+            (result.filter[field] as any)._in.push(value as PrimaryKey);
           } else {
-            result.filter[field] = { _eq: value as PrimaryKey };
+            result.filter[field] = { _in: [value as PrimaryKey] };
           }
+        } else {
+          result.filter[field] = { _eq: value as PrimaryKey };
         }
-        const fieldInfo = collectionInfo.fields[field]!;
-        const isRelational = fieldInfo.special.includes('m2o') || fieldInfo.special.includes('o2m');
-        if (isRelational && typeof value === 'object' && value !== null) {
-          // Load relational fields
-          const targetCollection = fieldInfo.special.includes('m2o')
-            ? (context.event.schema.relations.find((rel) => rel.collection === collection && rel.field === field)!
-                .related_collection as string)
-            : context.event.schema.relations.find(
-                (rel) => rel.related_collection === collection && rel.schema?.foreign_key_column === pkField,
-              )!.collection;
-
-          const relational = getUpdateInfo(targetCollection, value as Record<string, unknown>);
-          if (Object.keys(relational.filter).length > 0) {
-            result.deep[field] = { _filter: relational.filter, _limit: -1 };
-          }
-          if (relational.fields.length > 0) {
-            result.fields = Array.from(new Set([...result.fields, ...relational.fields.map((f) => `${field}.${f}`)]));
-          }
-        } else if (!result.fields.includes(field)) {
-          result.fields.push(field);
+      }
+      const fieldInfo = collectionInfo.fields[field]!;
+      const isRelational = fieldInfo.special.includes('m2o') || fieldInfo.special.includes('o2m');
+      if (isJunctionField(fieldInfo)) {
+        // m2m and m2a: load all junction rows to compare the linked items. Updates in Directus' detailed format
+        // ({ create, update, delete }) are not compared
+        if (value instanceof Array && !result.fields.includes(`${field}.*`)) {
+          result.fields.push(`${field}.*`);
+          // Directus loads 100 nested items by default, links past those would be created again
+          result.deep[field] = { _limit: -1 };
+        }
+      } else if (isRelational && typeof value === 'object' && value !== null) {
+        // Load relational fields
+        const targetCollection = getRelatedCollection(schema, collection, fieldInfo);
+        const fieldPath = path ? `${path}.${field}` : field;
+        const relational = getUpdateInfo(
+          schema,
+          targetCollection,
+          value as Record<string, unknown>,
+          options,
+          fieldPath,
+        );
+        if (fieldPath in replace || fieldPath in relationKeys) {
+          // Load all current o2m items, to determine which ones are missing from the update or match by key
+          relational.fields.push(
+            schema.collections[targetCollection]!.primary,
+            ...([] as string[]).concat(relationKeys[fieldPath] ?? []),
+          );
+          // Directus loads 100 nested items by default, items past those would never be removed or matched by key
+          result.deep[field] = { _limit: -1 };
+        } else if (Object.keys(relational.filter).length > 0) {
+          result.deep[field] = { _filter: relational.filter, _limit: -1 };
         }
+        if (relational.fields.length > 0) {
+          result.fields = Array.from(new Set([...result.fields, ...relational.fields.map((f) => `${field}.${f}`)]));
+        }
+      } else if (!result.fields.includes(field)) {
+        result.fields.push(field);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Merges the update info of multiple items, so their current values can be loaded with a single query
+ */
+function mergeUpdateInfo(infos: UpdateInfo[]) {
+  const fields = new Set<string>();
+  const deep = {} as Record<string, { _filter?: Record<string, { _in: PrimaryKey[] }>; _limit: number }>;
+  for (const info of infos) {
+    info.fields.forEach((field) => fields.add(field));
+    for (const [field, { _filter }] of Object.entries(info.deep as Record<string, { _filter?: FieldFilter }>)) {
+      if (!_filter || (deep[field] && !deep[field]!._filter)) {
+        // All nested items are loaded for this field
+        deep[field] = { _limit: -1 };
+        continue;
       }
+      const merged = deep[field]?._filter ?? {};
+      for (const [key, condition] of Object.entries(_filter) as Array<[string, any]>) {
+        const values = [...(condition._in ?? []), ...('_eq' in condition ? [condition._eq] : [])];
+        merged[key] = { _in: [...(merged[key]?._in ?? []), ...values] };
+      }
+      deep[field] = { _filter: merged, _limit: -1 };
     }
-    return result;
   }
+  return { fields: Array.from(fields), deep };
+}
 
-  const info = getUpdateInfo(service.collection, update);
+type FieldOverview = SchemaOverview['collections'][string]['fields'][string];
 
-  let currentItem: Item | undefined;
-  const filter = { ...pkFilter, ...info.filter };
-  if (pkFilter || typeof filter[pkField] !== 'undefined') {
-    const fields = [pkField, ...info.fields];
-    const existing = await service.readByQuery({ fields, filter, deep: info.deep });
-    if (existing.length === 1) {
-      currentItem = existing[0]!;
+type JunctionInfo = {
+  /** Junction collection */
+  collection: string;
+  /** Primary key field of the junction collection */
+  primary: string;
+  /** Junction field that refers to the linked item */
+  junctionField: string;
+  /** Junction field that holds the collection of the linked item, m2a only */
+  collectionField: string | null;
+  /** Collection of the linked items, m2m only */
+  relatedCollection: string | null;
+};
+
+function isJunctionField(fieldInfo: FieldOverview) {
+  return fieldInfo.special.includes('m2m') || fieldInfo.special.includes('m2a');
+}
+
+/**
+ * Returns the collection a relational field refers to. For m2m and m2a fields, this is the junction collection
+ */
+function getRelatedCollection(schema: SchemaOverview, collection: string, fieldInfo: FieldOverview) {
+  if (fieldInfo.special.includes('m2o')) {
+    return schema.relations.find((rel) => rel.collection === collection && rel.field === fieldInfo.field)!
+      .related_collection as string;
+  }
+  const relation = schema.relations.find(
+    (rel) => rel.related_collection === collection && rel.meta?.one_field === fieldInfo.field,
+  );
+  if (!relation) {
+    throw new Error(`No relation found for field ${collection}.${fieldInfo.field}`);
+  }
+  return relation.collection;
+}
+
+function getJunctionInfo(schema: SchemaOverview, collection: string, field: string): JunctionInfo {
+  const relation = schema.relations.find(
+    (rel) => rel.related_collection === collection && rel.meta?.one_field === field,
+  );
+  if (!relation?.meta?.junction_field) {
+    throw new Error(`No junction collection found for field ${collection}.${field}`);
+  }
+  const junctionField = relation.meta.junction_field;
+  const itemRelation = schema.relations.find(
+    (rel) => rel.collection === relation.collection && rel.field === junctionField,
+  )!;
+  return {
+    collection: relation.collection,
+    primary: schema.collections[relation.collection]!.primary,
+    junctionField,
+    collectionField: itemRelation.meta?.one_collection_field ?? null,
+    relatedCollection: itemRelation.related_collection,
+  };
+}
+
+type DirectusOneToAnyLink = { collection: string; item: PrimaryKey };
+
+/**
+ * Returns the item a junction row links to: its primary key (m2m), or `{ collection, item }` (m2a).
+ * The `key` is used to compare links, it is `null` if the linked item has no primary key (yet)
+ */
+function getLink(schema: SchemaOverview, junction: JunctionInfo, row: Item) {
+  const relatedCollection = junction.collectionField ? row[junction.collectionField] : junction.relatedCollection;
+  const related = row[junction.junctionField];
+  const relatedPk = schema.collections[relatedCollection]?.primary;
+  const relatedKey =
+    typeof related === 'object' && related !== null && relatedPk ? related[relatedPk] : (related as PrimaryKey);
+  const hasKey = typeof relatedKey !== 'undefined' && relatedKey !== null;
+  if (junction.collectionField) {
+    return {
+      key: hasKey ? `${relatedCollection}:${relatedKey}` : null,
+      value: { collection: relatedCollection, item: relatedKey } as DirectusOneToAnyLink,
+    };
+  }
+  return { key: hasKey ? String(relatedKey) : null, value: relatedKey as PrimaryKey };
+}
+
+type JunctionChanges = { create: Item[]; update: Item[]; delete: PrimaryKey[] };
+
+/**
+ * Compares the desired junction rows of an m2m or m2a field with the current ones by linked item.
+ * Returns the changes in Directus' detailed format: new links are created, links that are no longer wanted
+ * are deleted and existing links are only updated if other junction fields (eg `sort`) changed.
+ * @param schema
+ * @param junction junction collection info
+ * @param rows current junction rows
+ * @param entries desired junction rows. Junction primary keys refer to existing rows
+ * @returns the changes, or `null` if nothing changed
+ */
+function diffJunctionRows(
+  schema: SchemaOverview,
+  junction: JunctionInfo,
+  rows: Item[],
+  entries: unknown[],
+): JunctionChanges | null {
+  const { primary } = junction;
+  const rowsByLink = new Map(rows.map((row) => [getLink(schema, junction, row).key, row]));
+  const changes: JunctionChanges = { create: [], update: [], delete: [] };
+  const linked = new Set<Item>();
+  for (const entry of entries) {
+    const item = (typeof entry === 'object' && entry !== null ? entry : { [primary]: entry }) as Item;
+    const { key } = getLink(schema, junction, item);
+    const existing =
+      primary in item
+        ? rows.find((row) => String(row[primary]) === String(item[primary]))
+        : key !== null && !linked.has(rowsByLink.get(key)!)
+          ? rowsByLink.get(key)
+          : undefined;
+    if (!existing) {
+      // Junction rows with a primary key are moved from another item
+      (primary in item ? changes.update : changes.create).push(item);
+      continue;
     }
-    if (existing.length > 1) {
-      throw new Error(`Multiple ${service.collection} items found for filter ${JSON.stringify(filter)}`);
+    linked.add(existing);
+    const update = { ...item, [primary]: existing[primary] };
+    const related = update[junction.junctionField];
+    if (key !== null && typeof related === 'object' && related !== null && Object.keys(related).length === 1) {
+      // Only refers to the linked item
+      const { value } = getLink(schema, junction, item);
+      update[junction.junctionField] = junction.collectionField ? (value as DirectusOneToAnyLink).item : value;
+    }
+    removeUnchangedValues(schema, junction.collection, existing, update);
+    if (Object.keys(update).length > 0) {
+      changes.update.push({ ...update, [primary]: existing[primary] });
     }
   }
-  if (!currentItem) {
-    if (data[pkField] === null) {
-      delete data[pkField];
+  changes.delete = rows.filter((row) => !linked.has(row)).map((row) => row[primary] as PrimaryKey);
+  const hasChanges = changes.create.length > 0 || changes.update.length > 0 || changes.delete.length > 0;
+  return hasChanges ? changes : null;
+}
+
+function getFieldInfo(schema: SchemaOverview, rootCollection: string, targetField: string) {
+  let collection = rootCollection;
+  const isIndex = (str: string) => /^\d+$/.test(str);
+  const parts = targetField.split('.');
+  let targetFieldName = parts.pop()!;
+  if (isIndex(targetFieldName)) {
+    targetFieldName = parts.pop()!;
+  }
+  for (const part of parts) {
+    if (isIndex(part)) {
+      continue;
+    }
+    const collectionInfo = schema.collections[collection]!;
+    const fieldInfo = collectionInfo.fields[part]!;
+    const { field: fieldName } = fieldInfo;
+    if (['m2o', 'o2m', 'm2m', 'm2a'].some((type) => fieldInfo.special.includes(type))) {
+      collection = getRelatedCollection(schema, collection, fieldInfo);
+    } else {
+      throw new Error(`No relational data found for field ${fieldName} in ${targetField}`);
     }
-    const pkValue = await service.createOne(update, options);
-    return { key: pkValue, action: 'create' };
   }
+  const collectionInfo = schema.collections[collection]!;
+  const fieldInfo = collectionInfo.fields[targetFieldName]!;
+  return { collectionInfo, fieldInfo };
+}
+
+/**
+ * JSON.stringify with object keys sorted, to compare values regardless of key order
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (key, val) =>
+    typeof val === 'object' && val !== null && !(val instanceof Array)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .map((k) => [k, val[k]]),
+        )
+      : val,
+  );
+}
+
+/**
+ * Compares values based on the type of their field: numbers (eg decimals returned as strings), dates (in any format),
+ * json and geometry values (by content) and strings
+ */
+function isEqualValueByType(fieldInfo: Pick<FieldOverview, 'type'>, a: any, b: any) {
+  if (fieldInfo.type === 'json' || fieldInfo.type.startsWith('geometry')) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  if (fieldInfo.type === 'decimal' || fieldInfo.type === 'float' || fieldInfo.type === 'integer') {
+    return Number(a) === Number(b);
+  }
+  if (fieldInfo.type === 'date' || fieldInfo.type === 'dateTime' || fieldInfo.type === 'timestamp') {
+    return new Date(a as any).getTime() === new Date(b as any).getTime();
+  }
+  if (fieldInfo.type === 'string') {
+    return String(a) === String(b);
+  }
+  return a === b;
+}
+
+/**
+ * Compares values based on the type of their field, for updates
+ */
+function isEqualByType(fieldInfo: FieldOverview, a: any, b: any) {
+  if (fieldInfo.special.includes('date-updated') || fieldInfo.special.includes('date-created')) {
+    return true; // The set value in the update will be ignored and overwritten by Directus
+  }
+  if (fieldInfo.type === 'alias') {
+    throw new Error('Alias fields are not supported in minimalUpsert');
+  }
+  return isEqualValueByType(fieldInfo, a, b);
+}
 
-  function getFieldInfo(targetField: string) {
-    let { collection } = service;
-    const isIndex = (str: string) => /^\d+$/.test(str);
-    const parts = targetField.split('.');
-    let targetFieldName = parts.pop()!;
-    if (isIndex(targetFieldName)) {
-      targetFieldName = parts.pop()!;
+/**
+ * Compares values based on the type of their field, for monitored values. Unlike `isEqualValueByType`, `null` (or a
+ * missing value) is only equal to `null`, eg changing a number from `null` to `0` is a change, and json values are
+ * compared regardless of key order (eg after a jsonb round-trip)
+ */
+function isEqualNullableValueByType(fieldInfo: Pick<FieldOverview, 'type'>, a: any, b: any) {
+  if (a === null || b === null || typeof a === 'undefined' || typeof b === 'undefined') {
+    return (a ?? null) === (b ?? null);
+  }
+  if (fieldInfo.type === 'json' || fieldInfo.type.startsWith('geometry')) {
+    return stableStringify(a) === stableStringify(b);
+  }
+  return isEqualValueByType(fieldInfo, a, b);
+}
+
+/**
+ * Compares values using a field rule, falls back to comparing by type for values the rule doesn't apply to
+ */
+function isEqualByRule(
+  rule: Exclude<MinimalUpsertFieldRule, 'ignore'>,
+  fieldInfo: FieldOverview,
+  a: any,
+  b: any,
+  isEqual = isEqualByType,
+) {
+  if (rule.equals) {
+    return rule.equals(a, b);
+  }
+  const normalize = (value: any) => {
+    if (rule.emptyAsNull && value === '') {
+      return null;
     }
-    for (const part of parts) {
-      if (isIndex(part)) {
-        continue;
+    if (typeof value === 'string') {
+      let str = value;
+      if (rule.ignoreWhitespace) {
+        str = str.trim().replace(/\s+/g, ' ');
       }
-      const collectionInfo = context.event.schema.collections[collection]!;
-      const fieldInfo = collectionInfo.fields[part]!;
-      const { field: fieldName } = fieldInfo;
-      if (fieldInfo.special.includes('m2o')) {
-        collection = context.event.schema.relations.find(
-          (rel) => rel.collection === collection && rel.field === fieldName,
-        )!.related_collection as string;
-      } else if (fieldInfo.special.includes('o2m')) {
-        collection = context.event.schema.relations.find(
-          (rel) => rel.related_collection === collection && rel.schema?.foreign_key_column === collectionInfo.primary,
-        )!.collection;
-      } else {
-        throw new Error(`No relational data found for field ${fieldName} in ${targetField}`);
+      if (rule.ignoreCase) {
+        str = str.toLowerCase();
       }
+      return str;
     }
-    const collectionInfo = context.event.schema.collections[collection]!;
-    const fieldInfo = collectionInfo.fields[targetFieldName]!;
-    return { collectionInfo, fieldInfo };
+    return value;
+  };
+  const x = normalize(a) ?? null;
+  const y = normalize(b) ?? null;
+  if (x === null || y === null) {
+    return x === y;
+  }
+  if (typeof rule.tolerance === 'number') {
+    return Math.abs(Number(x) - Number(y)) <= rule.tolerance;
   }
+  if (rule.ignoreKeyOrder) {
+    return stableStringify(x) === stableStringify(y);
+  }
+  return isEqual(fieldInfo, x, y);
+}
+
+/**
+ * Compares two values of a field the same way `minimalUpsert` does: by field type (numbers, dates, json and strings),
+ * or using a field rule. Unlike `minimalUpsert`, values of `date-created` and `date-updated` fields are compared too,
+ * `null` is only equal to `null` (`minimalUpsert` treats `null` and `0` as equal numbers) and json values are compared
+ * regardless of key order (`minimalUpsert` needs the `ignoreKeyOrder` rule for that)
+ * @param fieldInfo field from the schema overview
+ * @param a first value
+ * @param b second value
+ * @param rule optional rule to customize the comparison, `'ignore'` treats all values as equal
+ * @returns whether the values are equal
+ */
+export function isEqualFieldValue(fieldInfo: FieldOverview, a: unknown, b: unknown, rule?: MinimalUpsertFieldRule) {
+  if (rule === 'ignore') {
+    return true;
+  }
+  return rule
+    ? isEqualByRule(rule, fieldInfo, a, b, isEqualNullableValueByType)
+    : isEqualNullableValueByType(fieldInfo, a, b);
+}
+
+type ChildRemoval = MinimalUpsertRemoval & { items: Item[] };
+
+/**
+ * Removes all values from an update that are equal to the values of the current item
+ * @param schema schema to get field types from
+ * @param collection collection of the item
+ * @param currentItem current item, loaded with the fields returned by `getUpdateInfo`
+ * @param update update to remove unchanged values from (is modified)
+ * @param options o2m fields in replace mode, and match keys of o2m fields
+ * @returns the current o2m items that are missing from the update of fields in replace mode
+ */
+function removeUnchangedValues(
+  schema: SchemaOverview,
+  collection: string,
+  currentItem: Item,
+  update: Item,
+  options: CompareOptions = {},
+) {
+  const { replace = {}, relationKeys = {}, fieldRules = {} } = options;
+  const removals = [] as ChildRemoval[];
 
   function deleteField(field: string) {
     const parts = field.split('.');
@@ -171,25 +598,102 @@ export async function minimalUpsert<T extends Item>(
     }
   }
 
-  function removeUnchangedValues(current: any, updated: any, targetField?: string) {
+  function setField(field: string, value: unknown) {
+    const parts = field.split('.');
+    const fieldName = parts.pop()!;
+    let target = update;
+    for (const part of parts) {
+      target = target[part] as Record<string, unknown>;
+    }
+    target[fieldName] = value;
+  }
+
+  function compare(current: any, updated: any, targetField?: string) {
     const { collectionInfo, fieldInfo } = targetField
-      ? getFieldInfo(targetField)
-      : { collectionInfo: service.schema.collections[service.collection]!, fieldInfo: null };
+      ? getFieldInfo(schema, collection, targetField)
+      : { collectionInfo: schema.collections[collection]!, fieldInfo: null };
 
     const pkField = collectionInfo.primary;
-    if (fieldInfo?.type !== 'json' && current instanceof Array && updated instanceof Array) {
+    const rule = targetField ? fieldRules[targetField.replace(/\.\d+(?=\.|$)/g, '')] : undefined;
+    if (rule === 'ignore') {
+      deleteField(targetField!);
+    } else if (fieldInfo && isJunctionField(fieldInfo)) {
+      // m2m or m2a relation. Compare linked items, updates in Directus' detailed format are left as is
+      if (current instanceof Array && updated instanceof Array) {
+        const junction = getJunctionInfo(schema, collectionInfo.collection, fieldInfo.field);
+        const changes = diffJunctionRows(schema, junction, current, updated);
+        if (changes) {
+          setField(targetField!, changes);
+        } else {
+          deleteField(targetField!);
+        }
+      }
+    } else if (fieldInfo?.type !== 'json' && current instanceof Array && updated instanceof Array) {
       // o2m relation. Sort by PK field, compare all items in array
-      const pkField = collectionInfo.primary;
+      const relatedCollection = getRelatedCollection(schema, collectionInfo.collection, fieldInfo!);
+      const pkField = schema.collections[relatedCollection]!.primary;
+      const path = targetField!.replace(/\.\d+(?=\.|$)/g, '');
+      const relationKey = relationKeys[path];
+      if (relationKey) {
+        // Add primary keys of current items with matching keys
+        const keyFields = ([] as string[]).concat(relationKey);
+        const matched = new Set(updated.map((item) => String(item[pkField])));
+        for (const item of updated.filter((item) => !(pkField in item))) {
+          const key = getMatchKey(item, keyFields);
+          const match = current.find(
+            (child) => key !== null && !matched.has(String(child[pkField])) && getMatchKey(child, keyFields) === key,
+          );
+          if (match) {
+            item[pkField] = match[pkField];
+            matched.add(String(match[pkField]));
+          }
+        }
+      }
       current.sort((a, b) => (a[pkField] < b[pkField] ? -1 : 1));
       updated.sort((a, b) => (a[pkField] < b[pkField] ? -1 : 1));
       for (let i = 0; i < current.length; i += 1) {
         const matchingUpdated = updated.find((x) => x[pkField] === current[i][pkField]);
         if (matchingUpdated) {
-          removeUnchangedValues(current[i], matchingUpdated, `${targetField}.${i}`);
+          compare(current[i], matchingUpdated, `${targetField}.${updated.indexOf(matchingUpdated)}`);
         }
       }
-      if (updated.length === 0) {
-        // No o2m items left
+      const replaceAction = replace[path];
+      if (replaceAction) {
+        const isCurrent = (item: Item) => current.some((child) => String(child[pkField]) === String(item[pkField]));
+        const removed = current.filter(
+          (child) => !updated.some((item) => String(item[pkField]) === String(child[pkField])),
+        );
+        if (removed.length > 0) {
+          const relation = schema.relations.find(
+            (rel) => rel.collection === relatedCollection && rel.meta?.one_field === fieldInfo!.field,
+          )!;
+          removals.push({
+            path,
+            collection: relatedCollection,
+            foreignKey: relation.field,
+            action: replaceAction,
+            keys: removed.map((child) => child[pkField]),
+            items: removed,
+          });
+        }
+        // Use Directus' detailed format, so Directus doesn't deselect the missing items itself
+        const create = updated.filter((item) => !(pkField in item) || !isCurrent(item));
+        const changed = updated.filter(
+          (item) => !create.includes(item) && Object.keys(item).some((key) => key !== pkField),
+        );
+        if (create.length > 0 || changed.length > 0) {
+          setField(targetField!, { create, update: changed, delete: [] });
+        } else {
+          deleteField(targetField!);
+        }
+      } else if (
+        updated.length === 0 ||
+        updated.every(
+          (item) =>
+            Object.keys(item).length === 1 && current.some((child) => String(child[pkField]) === String(item[pkField])),
+        )
+      ) {
+        // No o2m items left, or no changes to any of them
         deleteField(targetField!);
       }
     } else if (
@@ -201,7 +705,7 @@ export async function minimalUpsert<T extends Item>(
     ) {
       // Recursively remove unchanged values
       for (const key of Object.keys(updated).filter((key) => key in current)) {
-        removeUnchangedValues(current[key], updated[key], targetField ? `${targetField}.${key}` : key);
+        compare(current[key], updated[key], targetField ? `${targetField}.${key}` : key);
       }
       if (Object.keys(updated).length === 1 && pkField in updated && !fieldInfo?.special.includes('o2m')) {
         delete updated[pkField];
@@ -210,41 +714,522 @@ export async function minimalUpsert<T extends Item>(
         deleteField(targetField);
       }
     } else if (fieldInfo) {
-      const isEqual = ((a: any, b: any) => {
-        if (fieldInfo.special.includes('date-updated') || fieldInfo.special.includes('date-created')) {
-          return true; // The set value in the update will be ignored and overwritten by Directus
-        }
-        if (fieldInfo.type === 'json' || fieldInfo.type.startsWith('geometry')) {
-          return JSON.stringify(a) === JSON.stringify(b);
-        }
-        if (fieldInfo.type === 'decimal' || fieldInfo.type === 'float' || fieldInfo.type === 'integer') {
-          return Number(a) === Number(b);
-        }
-        if (fieldInfo.type === 'date' || fieldInfo.type === 'dateTime' || fieldInfo.type === 'timestamp') {
-          return new Date(a as any).getTime() === new Date(b as any).getTime();
-        }
-        if (fieldInfo.type === 'string') {
-          return String(a) === String(b);
-        }
-        if (fieldInfo.type === 'alias') {
-          throw new Error('Alias fields are not supported in minimalUpsert');
-        }
-        return a === b;
-      })(current, updated);
+      const isEqual = rule
+        ? isEqualByRule(rule, fieldInfo, current, updated)
+        : isEqualByType(fieldInfo, current, updated);
       if (isEqual && fieldInfo.field !== pkField) {
         deleteField(targetField!);
       }
     }
   }
 
-  removeUnchangedValues(currentItem, update);
+  compare(currentItem, update);
+  return removals;
+}
+
+/**
+ * Lists the values of an update that differ from the current item. Expects unchanged values to be removed from
+ * the update with `removeUnchangedValues` already
+ * @param schema schema to get field types from
+ * @param collection collection of the item
+ * @param currentItem current item, or `undefined` if it will be created
+ * @param update the update
+ * @returns the changed values
+ */
+function getChanges(schema: SchemaOverview, collection: string, currentItem: Item | undefined, update: Item) {
+  const changes = [] as MinimalUpsertChange[];
+  const isObject = (val: any) => typeof val === 'object' && val !== null && !(val instanceof Date);
+
+  function walkItem(collection: string, current: any, updated: Item, path?: string) {
+    const collectionInfo = schema.collections[collection]!;
+    const pkField = collectionInfo.primary;
+    for (const key of Object.keys(updated)) {
+      if (key === pkField && isObject(current) && current[pkField] === updated[pkField]) {
+        // Identifies the item, not a change
+        continue;
+      }
+      const fieldPath = path ? `${path}.${key}` : key;
+      walkField(
+        collection,
+        collectionInfo.fields[key],
+        isObject(current) ? current[key] : undefined,
+        updated[key],
+        fieldPath,
+      );
+    }
+  }
+
+  function walkField(
+    collection: string,
+    fieldInfo: FieldOverview | undefined,
+    current: any,
+    updated: any,
+    path: string,
+  ) {
+    if (!fieldInfo || fieldInfo.type === 'json' || !isObject(updated)) {
+      changes.push({ path, previous: current, value: updated });
+    } else if (isJunctionField(fieldInfo) && !(updated instanceof Array)) {
+      // Junction changes created by diffJunctionRows
+      const junction = getJunctionInfo(schema, collection, fieldInfo.field);
+      const rows = (current instanceof Array ? current : []) as Item[];
+      const { create = [], update = [], delete: deleted = [] } = updated as Partial<JunctionChanges>;
+      if (create.length > 0 || deleted.length > 0) {
+        const isDeleted = (row: Item) => deleted.some((key) => String(key) === String(row[junction.primary]));
+        changes.push({
+          path,
+          previous: rows.map((row) => getLink(schema, junction, row).value),
+          value: [...rows.filter((row) => !isDeleted(row)), ...create].map(
+            (row) => getLink(schema, junction, row).value,
+          ),
+        });
+      }
+      for (const row of update) {
+        const currentRow = rows.find(
+          (currentRow) => String(currentRow[junction.primary]) === String(row[junction.primary]),
+        );
+        walkItem(junction.collection, currentRow, row, `${path}.${row[junction.primary]}`);
+      }
+    } else if (updated instanceof Array) {
+      // o2m relation, or new m2m/m2a links
+      const relatedCollection = getRelatedCollection(schema, collection, fieldInfo);
+      const pkField = schema.collections[relatedCollection]!.primary;
+      updated.forEach((item, index) => {
+        if (!isObject(item)) {
+          changes.push({ path: `${path}.${index}`, previous: undefined, value: item });
+          return;
+        }
+        const currentChild =
+          current instanceof Array && pkField in item
+            ? current.find((child) => child[pkField] === item[pkField])
+            : undefined;
+        walkItem(relatedCollection, currentChild, item, `${path}.${pkField in item ? item[pkField] : index}`);
+      });
+    } else if (fieldInfo.special.includes('o2m')) {
+      // o2m changes in Directus' detailed format, created in replace mode
+      const { create = [], update = [] } = updated as { create?: Item[]; update?: Item[] };
+      walkField(collection, fieldInfo, current, [...create, ...update], path);
+    } else if (fieldInfo.special.includes('m2o')) {
+      walkItem(getRelatedCollection(schema, collection, fieldInfo), current, updated, path);
+    } else {
+      changes.push({ path, previous: current, value: updated });
+    }
+  }
+
+  walkItem(collection, currentItem, update);
+  return changes;
+}
+
+/**
+ * Lists removed o2m items as changes
+ */
+function getRemovalChanges(schema: SchemaOverview, removals: ChildRemoval[]) {
+  return removals.flatMap(({ path, collection, items }) =>
+    items.map((item) => {
+      const key = item[schema.collections[collection]!.primary];
+      return { path: `${path}.${key}`, previous: item, value: undefined } as MinimalUpsertChange;
+    }),
+  );
+}
+
+/**
+ * Deletes, detaches or archives o2m items that were removed in replace mode
+ */
+async function applyRemovals(
+  context: FivesparkDataHubContext,
+  service: ItemsService,
+  removals: MinimalUpsertRemoval[],
+  options?: MutationOptions,
+) {
+  const { services } = context.directus;
+  const { schema, accountability, knex } = service;
+  for (const removal of removals) {
+    const childService = new services.ItemsService(removal.collection, { schema, accountability, knex });
+    if (removal.action === 'delete') {
+      await childService.deleteMany(removal.keys, options);
+    } else if (removal.action === 'detach') {
+      await childService.updateMany(removal.keys, { [removal.foreignKey]: null }, options);
+    } else {
+      const collectionsService = new services.CollectionsService({ schema, knex });
+      const { meta } = (await collectionsService.readOne(removal.collection)) as {
+        meta: { archive_field: string | null; archive_value: string | null } | null;
+      };
+      if (!meta?.archive_field) {
+        throw new Error(`Cannot archive ${removal.collection} items: the collection has no archive field`);
+      }
+      await childService.updateMany(removal.keys, { [meta.archive_field]: meta.archive_value }, options);
+    }
+  }
+}
+
+const toRemovals = (removals: ChildRemoval[]) =>
+  removals.length > 0 ? { removed: removals.map(({ items, ...removal }) => removal) } : {};
+
+const memoryLocks = new MemoryLockBackend();
+
+/**
+ * Checks whether an error is caused by a unique constraint violation
+ */
+function isUniqueViolation(error: any) {
+  return (
+    isDirectusError(error, 'RECORD_NOT_UNIQUE') ||
+    error?.code === '23505' || // PostgreSQL
+    error?.code === 'ER_DUP_ENTRY' || // MySQL
+    error?.number === 2627 || // MSSQL unique constraint
+    error?.number === 2601 || // MSSQL unique index
+    (typeof error?.code === 'string' && error.code.startsWith('SQLITE_CONSTRAINT') && /UNIQUE/i.test(error.message))
+  );
+}
+
+/**
+ * Creates an item. If the service runs in a transaction, the item is created in a savepoint so that a failing insert
+ * doesn't abort the whole transaction (PostgreSQL)
+ */
+async function createInSavepoint(
+  context: FivesparkDataHubContext,
+  service: ItemsService,
+  data: Item,
+  options?: MutationOptions,
+) {
+  const { schema, accountability, knex } = service;
+  if (!(knex as Knex.Transaction).isTransaction) {
+    return service.createOne(data, options);
+  }
+  return knex.transaction(async (trx) => {
+    const trxService = new context.directus.services.ItemsService(service.collection, {
+      schema,
+      accountability,
+      knex: trx,
+    });
+    return trxService.createOne(data, options);
+  });
+}
+
+/**
+ * Performs a minimal update to an existing item by checking which fields will actually change.
+ * Creates the item if it doesn't exist, does nothing if there are no effective changes.
+ * Use the `replace` option to also remove o2m items that are missing from the update, and `relationKeys` to match
+ * o2m items on other fields than their primary key (eg ids of the source system). Use `fieldRules` to ignore fields or
+ * change how they are compared.
+ * Use the `lock` and `retryOnConflict` options to prevent duplicates when the same item is upserted concurrently.
+ * Use the `diff` option to get the changed values, or `dryRun` to preview the action and changes without writing:
+ * @example
+ * ```ts
+ * const { action, diff } = await minimalUpsert(context, ordersService, order, { erp_id: order.erp_id }, { dryRun: true });
+ * // action: 'update', diff: [{ path: 'status', previous: 'open', value: 'shipped' }]
+ * ```
+ */
+export async function minimalUpsert<T extends Item>(
+  context: FivesparkDataHubContext,
+  service: ItemsService,
+  data: Partial<T>,
+  pkFilter?: FieldFilter,
+  options?: MutationOptions & MinimalUpsertOptions & MinimalUpsertConcurrencyOptions,
+): Promise<MinimalUpsertResult> {
+  const { lock, ...upsertOptions } = options ?? {};
+  const pkField = context.event.schema.collections[service.collection]!.primary;
+  const lockKey = stableStringify({ ...pkFilter, [pkField]: data[pkField] ?? pkFilter?.[pkField] });
+  if (!lock || lockKey === '{}') {
+    return upsert(context, service, data, pkFilter, upsertOptions);
+  }
+  const backend = lock === true ? memoryLocks : lock;
+  const itemLock = await backend.acquire(`minimalUpsert:${service.collection}:${lockKey}`);
+  try {
+    return await upsert(context, service, data, pkFilter, upsertOptions);
+  } finally {
+    await itemLock.release();
+  }
+}
+
+async function upsert<T extends Item>(
+  context: FivesparkDataHubContext,
+  service: ItemsService,
+  data: Partial<T>,
+  pkFilter: FieldFilter | undefined,
+  options: MutationOptions & MinimalUpsertOptions & Pick<MinimalUpsertConcurrencyOptions, 'retryOnConflict'>,
+): Promise<MinimalUpsertResult> {
+  const { diff, dryRun, replace, relationKeys, fieldRules, retryOnConflict, ...mutationOptions } = options;
+  const withDiff = diff || dryRun;
+  const { schema } = context.event;
+  const collectionInfo = schema.collections[service.collection]!;
+  const pkField = collectionInfo.primary;
+  if (pkFilter && pkField in pkFilter && typeof pkFilter[pkField] === 'undefined') {
+    delete pkFilter[pkField];
+  }
+  if (Object.keys(pkFilter ?? {}).length === 0) {
+    pkFilter = undefined;
+  }
+
+  const update = cloneDeep(data);
+  const info = getUpdateInfo(schema, service.collection, update, { replace, relationKeys, fieldRules });
+
+  let currentItem: Item | undefined;
+  const filter = { ...pkFilter, ...info.filter };
+  if (pkFilter || typeof filter[pkField] !== 'undefined') {
+    const fields = [pkField, ...info.fields];
+    const existing = await service.readByQuery({ fields, filter, deep: info.deep });
+    if (existing.length === 1) {
+      currentItem = existing[0]!;
+    }
+    if (existing.length > 1) {
+      throw new Error(`Multiple ${service.collection} items found for filter ${JSON.stringify(filter)}`);
+    }
+  }
+  if (!currentItem) {
+    if (update[pkField] === null) {
+      delete update[pkField];
+    }
+    const changes = withDiff ? { diff: getChanges(schema, service.collection, undefined, update) } : {};
+    if (dryRun) {
+      return { key: (update[pkField] as PrimaryKey) ?? null, action: 'create', ...changes };
+    }
+    if (!retryOnConflict) {
+      const pkValue = await service.createOne(update, mutationOptions);
+      return { key: pkValue, action: 'create', ...changes };
+    }
+    try {
+      const pkValue = await createInSavepoint(context, service, update, mutationOptions);
+      return { key: pkValue, action: 'create', ...changes };
+    } catch (err) {
+      if (!isUniqueViolation(err) || !(pkFilter || typeof filter[pkField] !== 'undefined')) {
+        throw err;
+      }
+      // Created by someone else in the meantime, update it instead. Don't retry again if it still can't be found
+      context.directus.logger.debug(`minimalUpsert: ${service.collection} item already exists, updating it instead`);
+      return upsert(context, service, data, pkFilter, { ...options, retryOnConflict: false });
+    }
+  }
+
+  const removals = removeUnchangedValues(schema, service.collection, currentItem, update, {
+    replace,
+    relationKeys,
+    fieldRules,
+  });
 
   const pkValue = currentItem[pkField] as PrimaryKey;
-  if (Object.keys(update).length === 0) {
+  if (Object.keys(update).length === 0 && removals.length === 0) {
     // No changes
-    return { key: pkValue, action: 'none' };
+    return { key: pkValue, action: 'none', ...(withDiff ? { diff: [] } : {}) };
+  }
+
+  const changes = withDiff
+    ? {
+        diff: [...getChanges(schema, service.collection, currentItem, update), ...getRemovalChanges(schema, removals)],
+      }
+    : {};
+  if (!dryRun) {
+    if (Object.keys(update).length > 0) {
+      await service.updateOne(pkValue, update, mutationOptions);
+    }
+    await applyRemovals(context, service, removals, mutationOptions);
+  }
+  return { key: pkValue, action: 'update', ...changes, ...toRemovals(removals) };
+}
+
+export type MinimalUpsertManyOptions = {
+  /**
+   * Field(s) to match existing items on, eg `'erp_id'` or `['company', 'erp_id']`. Items that don't have values
+   * for all match fields are always created.
+   * @default the primary key field
+   */
+  matchKey?: string | string[];
+  /**
+   * Maximum number of items to read or write per query
+   * @default 500
+   */
+  chunkSize?: number;
+  /**
+   * Options passed to the create and update methods of the service
+   */
+  mutationOptions?: MutationOptions;
+} & MinimalUpsertOptions;
+
+export type MinimalUpsertManyResult = {
+  /** Result per item, in the same order as the given items */
+  results: MinimalUpsertResult[];
+  /** Number of items per action */
+  counts: Record<MinimalUpsertAction, number>;
+};
+
+const DEFAULT_UPSERT_CHUNK_SIZE = 500;
+
+function countActions(results: MinimalUpsertResult[]) {
+  const counts = { create: 0, update: 0, none: 0 };
+  results.forEach(({ action }) => counts[action]++);
+  return counts;
+}
+
+function chunk<T>(items: T[], size: number) {
+  const chunks = [] as T[][];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Batch version of `minimalUpsert`: creates items that don't exist and performs minimal updates on items that do,
+ * using the same comparison. Existing items are loaded with chunked `_in` queries instead of a query per item,
+ * new items are created with `createMany`, updates with equal changes are grouped into `updateMany` calls
+ * and the remaining ones are performed with `updateBatch`.
+ * @example
+ * ```ts
+ * const { counts } = await minimalUpsertMany(context, productsService, erpProducts, { matchKey: 'erp_id' });
+ * logger.info(`Created ${counts.create}, updated ${counts.update}, unchanged ${counts.none} products`);
+ * ```
+ * @param context
+ * @param service service of the collection to upsert items into
+ * @param items items to upsert
+ * @param options match key, chunk size, mutation options, o2m replace modes and match keys, and whether to return diffs or do a dry run
+ * @returns the action and primary key per item, and the number of items per action
+ * @throws if multiple items have the same match key, or multiple existing items are found for a match key
+ */
+export async function minimalUpsertMany<T extends Item>(
+  context: FivesparkDataHubContext,
+  service: ItemsService,
+  items: Array<Partial<T>>,
+  options: MinimalUpsertManyOptions = {},
+): Promise<MinimalUpsertManyResult> {
+  const { schema } = context.event;
+  const collectionInfo = schema.collections[service.collection]!;
+  const pkField = collectionInfo.primary;
+  const matchFields = options.matchKey ? ([] as string[]).concat(options.matchKey) : [pkField];
+  const chunkSize = options.chunkSize ?? DEFAULT_UPSERT_CHUNK_SIZE;
+  const withDiff = options.diff || options.dryRun;
+
+  const updates = items.map((item) => cloneDeep(item) as Item);
+  const matchKeys = updates.map((item) => getMatchKey(item, matchFields));
+  const indexes = new Map<string, number>();
+  matchKeys.forEach((key, index) => {
+    if (key === null) {
+      return;
+    }
+    if (indexes.has(key)) {
+      throw new Error(`Multiple ${service.collection} items with key ${matchFields.join(', ')} = ${key}`);
+    }
+    indexes.set(key, index);
+  });
+
+  // Load existing items
+  const currentItems = new Map<string, Item>();
+  const matchIndexes = Array.from(indexes.values());
+  for (const chunkIndexes of chunk(matchIndexes, chunkSize)) {
+    const chunkItems = chunkIndexes.map((index) => updates[index]!);
+    const info = mergeUpdateInfo(chunkItems.map((item) => getUpdateInfo(schema, service.collection, item, options)));
+    const filter =
+      matchFields.length === 1
+        ? { [matchFields[0]!]: { _in: chunkItems.map((item) => item[matchFields[0]!]) } }
+        : {
+            _or: chunkItems.map((item) => ({ _and: matchFields.map((field) => ({ [field]: { _eq: item[field] } })) })),
+          };
+    const fields = Array.from(new Set([pkField, ...matchFields, ...info.fields]));
+    const existing = await service.readByQuery({ fields, filter, deep: info.deep, limit: -1 });
+    for (const item of existing) {
+      const key = getMatchKey(item, matchFields)!;
+      if (currentItems.has(key)) {
+        throw new Error(`Multiple ${service.collection} items found for ${matchFields.join(', ')} = ${key}`);
+      }
+      currentItems.set(key, item);
+    }
+  }
+
+  // Compare
+  const results = [] as MinimalUpsertResult[];
+  const creates = [] as Array<{ index: number; item: Item }>;
+  const changes = [] as Array<{ index: number; key: PrimaryKey; update: Item }>;
+  const removals = [] as MinimalUpsertRemoval[];
+  updates.forEach((update, index) => {
+    const matchKey = matchKeys[index];
+    const currentItem = matchKey === null ? undefined : currentItems.get(matchKey!);
+    if (!currentItem) {
+      if (update[pkField] === null) {
+        delete update[pkField];
+      }
+      creates.push({ index, item: update });
+      results[index] = {
+        key: (update[pkField] as PrimaryKey) ?? null,
+        action: 'create',
+        ...(withDiff ? { diff: getChanges(schema, service.collection, undefined, update) } : {}),
+      };
+      return;
+    }
+    const itemRemovals = removeUnchangedValues(schema, service.collection, currentItem, update, options);
+    const key = currentItem[pkField] as PrimaryKey;
+    const diff = withDiff
+      ? {
+          diff: [
+            ...getChanges(schema, service.collection, currentItem, update),
+            ...getRemovalChanges(schema, itemRemovals),
+          ],
+        }
+      : {};
+    delete update[pkField];
+    if (Object.keys(update).length === 0 && itemRemovals.length === 0) {
+      results[index] = { key, action: 'none', ...diff };
+      return;
+    }
+    if (Object.keys(update).length > 0) {
+      changes.push({ index, key, update });
+    }
+    removals.push(...itemRemovals);
+    results[index] = { key, action: 'update', ...diff, ...toRemovals(itemRemovals) };
+  });
+
+  if (options.dryRun) {
+    return { results, counts: countActions(results) };
+  }
+
+  // Write
+  for (const chunkCreates of chunk(creates, chunkSize)) {
+    const keys = await service.createMany(
+      chunkCreates.map(({ item }) => item),
+      options.mutationOptions,
+    );
+    chunkCreates.forEach(({ index }, i) => (results[index]!.key = keys[i]!));
+  }
+
+  // Group items with the exact same changes (eg a status change) in updateMany calls
+  const groups = new Map<string, typeof changes>();
+  for (const change of changes) {
+    const groupKey = JSON.stringify(change.update);
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), change]);
+  }
+  const batch = [] as typeof changes;
+  for (const group of groups.values()) {
+    if (group.length === 1) {
+      batch.push(group[0]!);
+      continue;
+    }
+    for (const chunkGroup of chunk(group, chunkSize)) {
+      await service.updateMany(
+        chunkGroup.map(({ key }) => key),
+        chunkGroup[0]!.update,
+        options.mutationOptions,
+      );
+    }
+  }
+  for (const chunkBatch of chunk(batch, chunkSize)) {
+    await service.updateBatch(
+      chunkBatch.map(({ key, update }) => ({ ...update, [pkField]: key })),
+      options.mutationOptions,
+    );
+  }
+
+  // Group removals of o2m items by collection and action
+  const groupedRemovals = new Map<string, MinimalUpsertRemoval>();
+  for (const removal of removals) {
+    const groupKey = `${removal.collection}:${removal.foreignKey}:${removal.action}`;
+    const group = groupedRemovals.get(groupKey);
+    if (group) {
+      group.keys.push(...removal.keys);
+    } else {
+      groupedRemovals.set(groupKey, { ...removal, keys: [...removal.keys] });
+    }
+  }
+  for (const removal of groupedRemovals.values()) {
+    for (const keys of chunk(removal.keys, chunkSize)) {
+      await applyRemovals(context, service, [{ ...removal, keys }], options.mutationOptions);
+    }
   }
 
-  await service.updateOne(pkValue, update, options);
-  return { key: pkValue, action: 'update' };
+  return { results, counts: countActions(results) };
 }
@@ -1,12 +1,30 @@
+import { parseFilter, validatePayload } from '@directus/utils';
 import type { NonNull } from './types/select.js';
 import type {
+  DirectusEventContext,
   DirectusFilterHookFunction,
   DirectusHookRegisterFunctions,
   DirectusRuntimeContext,
+  Filter,
   Item,
   PrimaryKey,
 } from './directus.js';
-import { createHash } from 'crypto';
+import { isEqualFieldValue, stableStringify, type MinimalUpsertFieldRule } from './minimal-upsert.js';
+import { MonitorOutbox, type MonitorOutboxOptions } from './monitor-outbox.js';
+import { withLock } from './thread-safe.js';
+
+type SchemaOverview = DirectusEventContext['schema'];
+type FieldOverview = SchemaOverview['collections'][string]['fields'][string];
+
+/**
+ * Compares two values of a (dot-notated) field
+ */
+type ValueComparator = (field: string, a: unknown, b: unknown) => boolean;
+
+/**
+ * Dot-notated path to a field of a related collection, eg `customer.email`, `lines.quantity` or `tags.tags_id.name`
+ */
+export type FivesparkMonitorHookPath<ItemType> = `${keyof ItemType & string}.${string}`;
 
 export type FivesparkMonitorHookMutations<ItemType, IsPartial extends boolean> = Array<{
   action: 'create' | 'update' | 'delete';
@@ -16,16 +34,368 @@ export type FivesparkMonitorHookMutations<ItemType, IsPartial extends boolean> =
   previous: IsPartial extends true ? Partial<ItemType> : ItemType;
   /** New data for monitored fields */
   current: IsPartial extends true ? Partial<ItemType> : ItemType;
+  /**
+   * When the mutation was committed (ISO 8601), also for mutations delivered later because of retries or `debounce`.
+   * Combined debounced mutations have the time of the last mutation
+   */
+  timestamp: string;
   /**
    * Utility function to easily check for particular changes.
    * @example
    * mutation.hasChanged('status'); // true if status changed
    * mutation.hasChanged('status', 'draft'); // true if status changed from 'draft' to something else
    * mutation.hasChanged('status', 'draft', 'published') // true if status changed from 'draft' to 'published'
+   * mutation.hasChanged('customer.email'); // true if the email of the related customer changed
    */
-  hasChanged(field: keyof ItemType, from?: any, to?: any): boolean;
+  hasChanged(field: keyof ItemType | FivesparkMonitorHookPath<ItemType>, from?: any, to?: any): boolean;
 }>;
 
+/**
+ * A field transition a mutation must make. `from` and `to` accept a single value, an array of values (any of them)
+ * or the `'*'` wildcard (any value, the default). The field must have changed in any case.
+ * @example
+ * { field: 'status', from: 'draft', to: ['published', 'archived'] }
+ */
+export type FivesparkMonitorHookTransition<ItemType> = {
+  field: keyof ItemType & string;
+  from?: unknown;
+  to?: unknown;
+};
+
+/**
+ * Declarative conditions mutations must meet to be passed to the handler
+ */
+export type FivesparkMonitorHookConditions<ItemType> = {
+  /**
+   * The mutation must make at least one of these transitions
+   */
+  transitions?: Array<FivesparkMonitorHookTransition<ItemType>>;
+  /**
+   * Filter (in Directus filter syntax) the item must match before the mutation. Never matches created items
+   */
+  previous?: Filter;
+  /**
+   * Filter (in Directus filter syntax) the item must match after the mutation. Never matches deleted items
+   */
+  current?: Filter;
+};
+
+/**
+ * Why the filter and action phase of a mutation could not be correlated:
+ * - `no_filter`: the action hook fired for a key the filter hook never prepared
+ * - `expired`: the filter hook prepared a key, but the action hook never fired (eg because the mutation failed)
+ * - `not_found`: the item could not be read in the filter hook (eg because of missing permissions)
+ */
+export type FivesparkMonitorHookDropReason = 'no_filter' | 'expired' | 'not_found';
+
+export type FivesparkMonitorHookDroppedCorrelation = {
+  reason: FivesparkMonitorHookDropReason;
+  collection: string;
+  event: string;
+  /** Primary keys of the items whose mutations were dropped */
+  keys: PrimaryKey[];
+};
+
+/**
+ * Delivers mutations once no new mutations of the same item were made for `wait` ms, or `maxWait` ms after the first one
+ */
+export type FivesparkMonitorHookDebounceOptions = {
+  /** Time (ms) to wait for more mutations of an item */
+  wait: number;
+  /** Maximum time (ms) to hold back mutations of an item that keeps changing */
+  maxWait?: number;
+};
+
+export type FivesparkMonitorHookStats = {
+  /** Number of keys prepared by the filter hook */
+  prepared: number;
+  /** Number of keys of which the action hook was correlated with the filter hook */
+  correlated: number;
+  /** Number of mutations passed to the handler */
+  delivered: number;
+  /** Number of keys waiting for their action hook */
+  pending: number;
+  /** Number of (coalesced) mutations waiting for their debounce time */
+  debounced: number;
+  /** Number of dropped keys per reason */
+  dropped: Record<FivesparkMonitorHookDropReason, number>;
+};
+
+/**
+ * Returned by `monitor`, to inspect how well filter and action hooks are being correlated
+ */
+export type FivesparkMonitorHook = {
+  /**
+   * Returns a snapshot of the correlation statistics of this monitor
+   */
+  getStats(): FivesparkMonitorHookStats;
+  /**
+   * Replays dead-lettered mutations of a durable monitor, see `replayMonitorOutbox`
+   * @param ids only replay outbox entries with given ids
+   * @returns primary keys of the replayed outbox entries
+   * @throws if the monitor is not durable
+   */
+  replay(ids?: PrimaryKey[]): Promise<PrimaryKey[]>;
+  /**
+   * Delivers debounced mutations right away, without waiting for their debounce time
+   */
+  flush(): Promise<void>;
+};
+
+/**
+ * State of a single item prepared by the filter hook, waiting for the action hook
+ */
+type PreparedMutation = {
+  timestamp: number;
+  /** Monitored fields being changed according to the filter hook */
+  fields: string[];
+  /** Payload of this item as seen by the filter hook */
+  payload: Item;
+  /** Data of the item before the mutation, `null` if it could not be read */
+  previous: Item | null;
+};
+
+// eslint-disable-next-line no-magic-numbers
+const FIVE_MINUTES = 1000 * 60 * 5;
+
+/**
+ * Gets the payload for a single item. Payloads are shared by all keys, unless an array of items is passed
+ * (eg a batch update), in which case the item with given primary key is used.
+ */
+function getKeyPayload(payload: unknown, key: PrimaryKey, primaryKeyField: string): Item {
+  if (Array.isArray(payload)) {
+    const item = payload.find((item) => item && `${item[primaryKeyField]}` === `${key}`);
+    if (!item) {
+      return {};
+    }
+    const data = { ...item };
+    delete data[primaryKeyField];
+    return data;
+  }
+  return (payload ?? {}) as Item;
+}
+
+/**
+ * Returns a copy of given data with only given fields
+ */
+function pickFields(data: Item, fields: string[]) {
+  return Object.fromEntries(fields.filter((field) => field in data).map((field) => [field, data[field]])) as Item;
+}
+
+/**
+ * Gets the (top level) fields used in a filter
+ */
+function getFilterFields(filter: Filter): string[] {
+  return Object.entries(filter).flatMap(([key, value]) =>
+    key === '_and' || key === '_or' ? (value as Filter[]).flatMap(getFilterFields) : [key],
+  );
+}
+
+const WILDCARD = '*';
+
+/**
+ * Checks whether a value matches the `from` or `to` value(s) of a transition
+ */
+function isTransitionValue(expected: unknown, value: unknown, isEqual: (a: unknown, b: unknown) => boolean) {
+  if (typeof expected === 'undefined') {
+    return true;
+  }
+  return (expected instanceof Array ? expected : [expected]).some(
+    (expected) => expected === WILDCARD || isEqual(expected, value ?? null),
+  );
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return a === b || stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Gets the collection a m2o, o2m or m2m field relates to
+ */
+function getRelatedCollection(schema: SchemaOverview, collection: string, field: string) {
+  const relation = schema.relations.find(
+    (relation) =>
+      (relation.collection === collection && relation.field === field) ||
+      (relation.related_collection === collection && relation.meta?.one_field === field),
+  );
+  if (!relation) {
+    return null;
+  }
+  return relation.collection === collection && relation.field === field
+    ? relation.related_collection
+    : relation.collection;
+}
+
+/**
+ * Gets the schema info of a (dot-notated) field, and the collection it is in
+ */
+function getFieldOverview(
+  schema: SchemaOverview,
+  collection: string,
+  path: string,
+): { collection: string; fieldInfo: FieldOverview } | null {
+  const [field, ...rest] = path.split('.') as [string, ...string[]];
+  const fieldInfo = schema.collections[collection]?.fields[field];
+  if (!fieldInfo || rest.length === 0) {
+    return fieldInfo ? { collection, fieldInfo } : null;
+  }
+  const related = getRelatedCollection(schema, collection, field);
+  return related ? getFieldOverview(schema, related, rest.join('.')) : null;
+}
+
+/**
+ * Compares values of fields like `minimalUpsert` does, by the types of the fields or using field rules.
+ * Nested data of relational fields is compared field by field
+ * @param schema schema to get field types from
+ * @param collection collection the fields are in
+ * @param fieldRules rules to customize the comparison per (dot-notated) field
+ */
+function createValueComparator(
+  schema: SchemaOverview,
+  collection: string,
+  fieldRules: Record<string, MinimalUpsertFieldRule>,
+): ValueComparator {
+  const isEqual: ValueComparator = (field, a, b) => {
+    const info = getFieldOverview(schema, collection, field);
+    const rule = fieldRules[field];
+    if (!info) {
+      return rule === 'ignore' || (rule?.equals ? rule.equals(a, b) : isSameValue(a, b));
+    }
+    const { fieldInfo } = info;
+    const isData = fieldInfo.type !== 'json' && !fieldInfo.type.startsWith('geometry');
+    if (isData && rule !== 'ignore' && !rule?.equals && a instanceof Array && b instanceof Array) {
+      // Items of to-many relations, or values of a field of those items
+      return a.length === b.length && a.every((item, index) => isEqual(field, item, b[index]));
+    }
+    const isObject = (value: unknown) => typeof value === 'object' && value !== null && !(value instanceof Date);
+    if (isData && isObject(a) && isObject(b) && getRelatedCollection(schema, info.collection, fieldInfo.field)) {
+      // Nested data of a related item
+      return [...new Set([...Object.keys(a as Item), ...Object.keys(b as Item)])].every((key) =>
+        isEqual(`${field}.${key}`, (a as Item)[key], (b as Item)[key]),
+      );
+    }
+    return isEqualFieldValue(fieldInfo, a, b, rule);
+  };
+  return isEqual;
+}
+
+/**
+ * Gets the value of a (dot-notated) path, values of to-many relations are returned as arrays
+ */
+function getPathValue(data: unknown, path: string) {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, field) =>
+        value instanceof Array ? value.map((item) => item?.[field]) : (value as Item | null | undefined)?.[field],
+      data,
+    );
+}
+
+/**
+ * Creates the `hasChanged` implementation of update mutations
+ */
+function createHasChanged(isEqual: ValueComparator) {
+  return function hasChanged(this: { previous: Item; current: Item }, field: string, from?: any, to?: any) {
+    const previous = getPathValue(this.previous, field);
+    const current = getPathValue(this.current, field);
+    return (
+      !isEqual(field, previous, current) &&
+      (typeof from === 'undefined' || isEqual(field, previous, from)) &&
+      (typeof to === 'undefined' || isEqual(field, current, to))
+    );
+  };
+}
+
+type Mutation = FivesparkMonitorHookMutations<Item, false>[number];
+
+/**
+ * Combines two successive mutations of the same item into one, with the oldest previous and the newest current data.
+ * A create followed by an update stays a create, anything followed by a delete becomes a delete
+ * @returns the combined mutation (without `hasChanged`), or `null` if the changes were reverted
+ */
+function coalesceMutations(
+  older: Mutation,
+  newer: Mutation,
+  isEqual: ValueComparator,
+  includeUnchanged: boolean,
+): Omit<Mutation, 'hasChanged'> | null {
+  const action = newer.action === 'delete' ? 'delete' : older.action === 'create' ? 'create' : 'update';
+  // Fields the older mutation didn't change still had their oldest value before the newer mutation
+  const previous = action === 'create' ? {} : { ...newer.previous, ...older.previous };
+  const current = action === 'delete' ? {} : { ...older.current, ...newer.current };
+  if (action === 'update') {
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(current)])];
+    const unchanged = fields.filter((field) => isEqual(field, previous[field], current[field]));
+    if (unchanged.length === fields.length) {
+      return null;
+    }
+    if (!includeUnchanged) {
+      for (const field of unchanged) {
+        delete previous[field];
+        delete current[field];
+      }
+    }
+  }
+  return { action, key: newer.key, previous, current, timestamp: newer.timestamp };
+}
+
+/**
+ * Relational field on the way to a nested monitored field
+ */
+type RelationStep = {
+  /** Collection containing the relational field */
+  collection: string;
+  field: string;
+  /** Collection the field relates to */
+  related: string;
+  /** Field in the related collection that refers back to the collection, for o2m relations */
+  foreignKey: string | null;
+};
+
+type MonitoredPath = {
+  path: string;
+  steps: RelationStep[];
+  /** Fields to read, including the primary keys of o2m items so they can be told apart */
+  readFields: string[];
+};
+
+/**
+ * Resolves the relations of a nested path, eg `lines.product.name` is resolved to the o2m relation `orders.lines`
+ * and the m2o relation `order_lines.product`. m2m paths must include the junction field: `tags.tags_id.name`
+ */
+function resolvePath(schema: SchemaOverview, collection: string, path: string): MonitoredPath {
+  const fields = path.split('.');
+  const steps = [] as RelationStep[];
+  const readFields = [] as string[];
+  let current = collection;
+  for (const [index, field] of fields.slice(0, -1).entries()) {
+    const m2o = schema.relations.find(
+      (relation) => relation.collection === current && relation.field === field && relation.related_collection,
+    );
+    const o2m = schema.relations.find(
+      (relation) => relation.related_collection === current && relation.meta?.one_field === field,
+    );
+    if (m2o) {
+      steps.push({ collection: current, field, related: m2o.related_collection!, foreignKey: null });
+    } else if (o2m) {
+      steps.push({ collection: current, field, related: o2m.collection, foreignKey: o2m.field });
+      readFields.push([...fields.slice(0, index + 1), schema.collections[o2m.collection]!.primary].join('.'));
+    } else {
+      throw new Error(`Cannot monitor ${path}: ${current}.${field} is not a m2o, o2m or m2m field`);
+    }
+    current = steps[steps.length - 1]!.related;
+  }
+  return { path, steps, readFields: [...readFields, path] };
+}
+
+/**
+ * Checks whether all values of the payload seen by the filter hook are still in the payload of the action hook
+ */
+function isSamePayload(prepared: Item, payload: Item) {
+  return Object.keys(prepared).every((field) => JSON.stringify(prepared[field]) === JSON.stringify(payload[field]));
+}
+
 let lastHookId = 0;
 export function createMonitorHook(
   directus: DirectusRuntimeContext,
@@ -41,12 +411,14 @@ export function createMonitorHook(
      * Fields to monitor. Pass empty array to monitor all fields.
      */
     monitorFieldsOrOptions:
-      | K[]
+      | Array<K | FivesparkMonitorHookPath<ItemType>>
       | {
           /**
            * Fields to monitor. Pass empty array to monitor all fields.
+           * Fields of related collections can be monitored with dot-notated paths, eg `customer.email` or `lines.quantity`.
+           * Their changes are passed to the handler as updates of the monitored items, with nested `previous` and `current` data.
            */
-          fields: K[];
+          fields: Array<K | FivesparkMonitorHookPath<ItemType>>;
           /**
            * Whether to include values for monitored fields that did not change during mutations to other monitored fields.
            * By default only fields that actually changed are included in the `current` and `previous` data.
@@ -64,6 +436,47 @@ export function createMonitorHook(
            * @default true
            */
           useAccountability?: boolean;
+          /**
+           * Called when the filter and action phase of a mutation could not be correlated, so the mutation is not
+           * passed to the handler. Dropped correlations are logged as warnings if not set.
+           */
+          onDropped?: (dropped: FivesparkMonitorHookDroppedCorrelation) => void;
+          /**
+           * Only pass mutations meeting these conditions to the handler. The handler is not called if no mutations match.
+           * @example
+           * { transitions: [{ field: 'status', from: 'draft', to: 'published' }], current: { type: { _eq: 'order' } } }
+           */
+          when?: FivesparkMonitorHookConditions<ItemType>;
+          /**
+           * Rules to customize how values of (dot-notated) fields are compared, like the `fieldRules` option of
+           * `minimalUpsert`. By default values are compared by the type of their field, so eg a decimal returned as
+           * string equals the same number, and timestamps in different formats are equal.
+           * @example
+           * { name: { ignoreCase: true, ignoreWhitespace: true }, price: { tolerance: 0.005 }, date_updated: 'ignore' }
+           */
+          fieldRules?: Record<string, MinimalUpsertFieldRule>;
+          /**
+           * Stores mutations in the `monitor_outbox` collection once committed, and delivers them to the handler from
+           * there, so they are not lost if the handler throws or Directus restarts. Failed deliveries are retried with
+           * exponential backoff, and dead-lettered after all retries failed. Mutations are delivered at least once,
+           * in order per key. The `context` passed to the handler has a fresh schema and the original accountability
+           * @example
+           * { name: 'erp-orders', retries: 5 }
+           */
+          durable?: MonitorOutboxOptions;
+          /**
+           * Holds back mutations of an item until it hasn't changed for `wait` ms, then delivers them as a single
+           * mutation with the oldest `previous` and the newest `current` data. A create followed by updates is delivered
+           * as a create, anything followed by a delete as a delete, and changes that were reverted are not delivered.
+           * Pass a number as shorthand for `{ wait }`. The `when` conditions are checked per mutation, before they
+           * are combined. Debounced mutations are kept in memory until they are delivered, also by durable monitors
+           * (they are added to the outbox once their debounce time has passed). They are flushed on `server.stop`, but
+           * Directus doesn't wait for that and closes the database before, so mutations that are still debounced can be
+           * lost when Directus stops. Call `flush()` before a planned shutdown if that matters
+           * @example
+           * { wait: 5000, maxWait: 60000 }
+           */
+          debounce?: number | FivesparkMonitorHookDebounceOptions;
         },
     handler: // <
     // ---------------------------------------------------------------------------------------------------------------
@@ -83,7 +496,7 @@ export function createMonitorHook(
         'schema' | 'accountability'
       >,
     ) => void | Promise<void>,
-  ) {
+  ): FivesparkMonitorHook {
     const monitorOptions = {
       fields: monitorFieldsOrOptions instanceof Array ? monitorFieldsOrOptions : monitorFieldsOrOptions.fields,
       includeUnchanged: monitorFieldsOrOptions instanceof Array ? false : monitorFieldsOrOptions.includeUnchanged,
@@ -92,18 +505,235 @@ export function createMonitorHook(
           ? ['create', 'update', 'delete']
           : monitorFieldsOrOptions.events,
       useAccountability: monitorFieldsOrOptions instanceof Array ? true : monitorFieldsOrOptions.useAccountability,
+      onDropped: monitorFieldsOrOptions instanceof Array ? undefined : monitorFieldsOrOptions.onDropped,
+      when: monitorFieldsOrOptions instanceof Array ? undefined : monitorFieldsOrOptions.when,
+      fieldRules: (monitorFieldsOrOptions instanceof Array ? undefined : monitorFieldsOrOptions.fieldRules) ?? {},
+      durable: monitorFieldsOrOptions instanceof Array ? undefined : monitorFieldsOrOptions.durable,
+      debounce: monitorFieldsOrOptions instanceof Array ? undefined : monitorFieldsOrOptions.debounce,
     };
     const logger = directus.logger.child({}, { msgPrefix: '[monitor hook]' });
-    const mutationsInProgress: Record<
+    // Top level fields are compared with the payload, nested paths by reading related data before and after mutations
+    const topFields = (monitorOptions.fields as string[]).filter((field) => !field.includes('.'));
+    const nestedPaths = (monitorOptions.fields as string[]).filter((field) => field.includes('.'));
+    const isMonitored = (field: string) => monitorOptions.fields.length === 0 || topFields.includes(field);
+    const monitorsTopFields = monitorOptions.fields.length === 0 || topFields.length > 0;
+
+    // Fields needed to evaluate the conditions, read along with the monitored fields
+    const { when } = monitorOptions;
+    const conditionFields = [
+      ...new Set([
+        ...(when?.transitions ?? []).map((transition) => transition.field),
+        ...(when?.previous ? getFilterFields(when.previous) : []),
+        ...(when?.current ? getFilterFields(when.current) : []),
+      ]),
+    ];
+    const comparators = new WeakMap<SchemaOverview, ValueComparator>();
+    /**
+     * Gets the comparator for values of the monitored collection, by schema
+     */
+    const getComparator = (schema: SchemaOverview) => {
+      const comparator =
+        comparators.get(schema) ?? createValueComparator(schema, monitorCollection, monitorOptions.fieldRules);
+      comparators.set(schema, comparator);
+      return comparator;
+    };
+
+    /**
+     * Checks whether a mutation meets the `when` conditions
+     * @param previous data before the mutation, including the fields used in conditions
+     * @param current data after the mutation, including the fields used in conditions
+     */
+    const meetsConditions = (
+      previous: Item | null,
+      current: Item | null,
+      schema: SchemaOverview,
+      accountability: any,
+    ) => {
+      if (!when) {
+        return true;
+      }
+      const isEqual = getComparator(schema);
+      if (
+        when.transitions &&
+        !when.transitions.some(
+          ({ field, from, to }) =>
+            !isEqual(field, previous?.[field] ?? null, current?.[field] ?? null) &&
+            isTransitionValue(from, previous?.[field], (a, b) => isEqual(field, a, b)) &&
+            isTransitionValue(to, current?.[field], (a, b) => isEqual(field, a, b)),
+        )
+      ) {
+        return false;
+      }
+      const matches = (filter: Filter, data: Item | null) =>
+        data !== null &&
+        validatePayload(parseFilter(filter, accountability) ?? {}, data, { requireAll: true }).length === 0;
+      return (!when.previous || matches(when.previous, previous)) && (!when.current || matches(when.current, current));
+    };
+
+    const stats: FivesparkMonitorHookStats = {
+      prepared: 0,
+      correlated: 0,
+      delivered: 0,
+      pending: 0,
+      debounced: 0,
+      dropped: { no_filter: 0, expired: 0, not_found: 0 },
+    };
+    const drop = (reason: FivesparkMonitorHookDropReason, collection: string, event: string, keys: PrimaryKey[]) => {
+      if (keys.length === 0) {
+        return;
+      }
+      stats.dropped[reason] += keys.length;
+      if (monitorOptions.onDropped) {
+        try {
+          monitorOptions.onDropped({ reason, collection, event, keys });
+        } catch (error) {
+          logger.error(`Error in onDropped callback for event ${event}`, error);
+        }
+      } else {
+        logger.warn(`Dropped ${event} mutation of keys ${keys.join(', ')} (${reason}) in monitor hook ${hookId}`);
+      }
+    };
+
+    const outbox = monitorOptions.durable
+      ? new MonitorOutbox(
+          directus,
+          async (entry) => {
+            // Recreate the context and the `hasChanged` functions of the stored mutations
+            const schema = await directus.getSchema();
+            const isEqual = getComparator(schema);
+            const mutations = entry.mutations.map((mutation) => ({
+              ...mutation,
+              hasChanged: mutation.action === 'delete' ? () => false : createHasChanged(isEqual),
+            })) as Parameters<typeof handler>[0];
+            const context: Parameters<typeof handler>[2] = {
+              schema,
+              accountability: entry.accountability,
+              database: directus.database,
+            };
+            stats.delivered += mutations.length;
+            await handler(
+              mutations,
+              { collection: entry.collection, event: entry.event, payload: entry.payload as Partial<ItemType> },
+              context,
+            );
+          },
+          monitorOptions.durable,
+        )
+      : null;
+
+    /**
+     * Passes mutations to the handler, or to the outbox of durable monitors
+     */
+    const dispatch = async (
+      mutations: Parameters<typeof handler>[0],
+      meta: Parameters<typeof handler>[1],
+      context: Parameters<typeof handler>[2],
+    ) => {
+      if (outbox) {
+        try {
+          await outbox.add({
+            collection: meta.collection,
+            event: meta.event,
+            keys: mutations.map((mutation) => mutation.key),
+            mutations: mutations.map(({ action, key, previous, current, timestamp }) => ({
+              action,
+              key,
+              previous,
+              current,
+              timestamp,
+            })),
+            payload: meta.payload,
+            accountability: context.accountability,
+          });
+          return;
+        } catch (error) {
+          logger.error(`Failed to add mutations of event ${meta.event} to the outbox, delivering them directly`, error);
+        }
+      }
+      try {
+        stats.delivered += mutations.length;
+        await handler(mutations, meta, context);
+      } catch (error) {
+        logger.error(`Error in monitor hook handler for event ${meta.event}`, error);
+      }
+    };
+
+    // Mutations held back by the debounce option, per key
+    const debounce =
+      typeof monitorOptions.debounce === 'number' ? { wait: monitorOptions.debounce } : monitorOptions.debounce;
+    const debounced = new Map<
       string,
       {
-        timestamp: number;
-        event: string;
-        keys: PrimaryKey[];
-        fields: string[];
-        current: Array<{ key?: PrimaryKey; data: ItemType }>;
+        mutation: Mutation;
+        meta: Parameters<typeof handler>[1];
+        context: Parameters<typeof handler>[2];
+        timer: ReturnType<typeof setTimeout>;
+        started: number;
       }
-    > = {};
+    >();
+    const flushDebounced = async (key: string) => {
+      const pending = debounced.get(key);
+      if (!pending) {
+        return;
+      }
+      clearTimeout(pending.timer);
+      debounced.delete(key);
+      await dispatch([pending.mutation] as Parameters<typeof handler>[0], pending.meta, pending.context);
+    };
+    const flush = async () => {
+      await Promise.all([...debounced.keys()].map(flushDebounced));
+    };
+
+    /**
+     * Passes mutations to the handler, combining mutations of the same item if they are debounced
+     */
+    const deliver = async (
+      mutations: Parameters<typeof handler>[0],
+      meta: Parameters<typeof handler>[1],
+      context: Parameters<typeof handler>[2],
+    ) => {
+      if (!debounce) {
+        await dispatch(mutations, meta, context);
+        return;
+      }
+      const isEqual = getComparator(context.schema);
+      for (const mutation of mutations as Mutation[]) {
+        const key = `${mutation.key}`;
+        const pending = debounced.get(key);
+        if (pending) {
+          clearTimeout(pending.timer);
+        }
+        const combined = pending
+          ? coalesceMutations(pending.mutation, mutation, isEqual, !!monitorOptions.includeUnchanged)
+          : mutation;
+        if (!combined) {
+          debounced.delete(key);
+          continue;
+        }
+        const started = pending?.started ?? Date.now();
+        const wait = Math.max(Math.min(debounce.wait, started + (debounce.maxWait ?? Infinity) - Date.now()), 0);
+        const timer = setTimeout(() => flushDebounced(key), wait);
+        timer.unref?.(); // Don't keep the process alive, pending mutations are flushed (best effort) on server.stop
+        debounced.set(key, {
+          mutation: {
+            ...combined,
+            hasChanged: combined.action === 'delete' ? () => false : createHasChanged(isEqual),
+          } as Mutation,
+          // A create followed by updates is still delivered with the meta of the create event
+          meta: combined.action === 'create' && pending ? pending.meta : meta,
+          context,
+          timer,
+          started,
+        });
+      }
+    };
+    if (debounce || outbox) {
+      // Not awaited by Directus, handlers that still need the database will fail
+      action('server.stop', async () => {
+        await flush();
+        await outbox?.stop();
+      });
+    }
 
     const events = [
       ...(monitorOptions.events.includes('create') ? [`${monitorCollection}.items.create`] : []),
@@ -111,13 +741,12 @@ export function createMonitorHook(
       ...(monitorOptions.events.includes('delete') ? [`${monitorCollection}.items.delete`] : []),
     ];
     const hookId = lastHookId++;
-    const createFingerprint = (event: string, keys: PrimaryKey[] | undefined) => {
-      return createHash('md5')
-        .update(JSON.stringify({ hookId, event, keys: keys?.sort() }))
-        .digest('hex');
-    };
     events.forEach((event) => {
-      // Use filter hook to prepare mutations array
+      // Mutations prepared by the filter hook per key. Multiple mutations of the same key can be in progress
+      // at the same time (eg concurrent requests, or a batch update changing the same item twice)
+      const mutationsInProgress = new Map<string, PreparedMutation[]>();
+
+      // Use filter hook to prepare mutations
       filter(event, async (payload: Partial<ItemType>, meta, context) => {
         if (meta.event.endsWith('.items.create')) {
           // No need to get current values for create events (NOTE we could also prevent binding the filter hook for this event)
@@ -127,154 +756,218 @@ export function createMonitorHook(
           // Not an update event, error
           throw new Error(`Unexpected event ${meta.event}`);
         }
+        if (meta.event.endsWith('.items.update') && !monitorsTopFields) {
+          // Only nested paths are monitored, changes to those are detected by the nested hooks
+          return;
+        }
         const eventName = meta.event.split('.').pop() as 'create' | 'update' | 'delete';
         const { collection } = meta;
-        const { schema, accountability } = context;
-        const fields =
+        const { schema, accountability, database } = context;
+        const primaryKeyField = schema.collections[collection]!.primary;
+        // Copy keys, Directus sorts the original array in place
+        const keys = [
+          ...(eventName === 'delete'
+            ? (payload as unknown as PrimaryKey[])
+            : ((meta.keys ?? [meta.key]) as PrimaryKey[])),
+        ];
+        const fieldsPerKey = keys.map((key) =>
           monitorOptions.includeUnchanged || eventName === 'delete'
-            ? monitorOptions.fields
-            : (Object.keys(payload) as K[]).filter(
-                (field) => monitorOptions.fields.length === 0 || monitorOptions.fields.includes(field),
-              );
-        const keys =
-          eventName === 'delete' ? (payload as unknown as PrimaryKey[]) : ((meta.keys ?? [meta.key]) as PrimaryKey[]);
-
-        // Fingerprint this event so we can add it to the mutationsInProgress object
-        const fingerprint = createFingerprint(event, keys);
-
-        // Fetch current data of changed items
-        const itemsService = new directus.services.ItemsService<ItemType>(collection, { schema, accountability : monitorOptions.useAccountability ? accountability : null });
-        const primaryKeyField = schema.collections[collection].primary;
+            ? topFields
+            : Object.keys(getKeyPayload(payload, key, primaryKeyField)).filter(isMonitored),
+        );
+        const fields = [...new Set(fieldsPerKey.flat())];
+
+        // Fetch current data of changed items. Use the transaction of the mutation (if any), so we see changes made
+        // earlier in the same transaction, eg by a batch update changing the same item twice
+        const itemsService = new directus.services.ItemsService<ItemType>(collection, {
+          schema,
+          accountability: monitorOptions.useAccountability ? accountability : null,
+          knex: database,
+        });
         const currentItems = await itemsService.readMany(keys, {
-          fields: [primaryKeyField, ...fields],
+          fields:
+            fields.length === 0 && monitorOptions.fields.length === 0
+              ? ['*']
+              : [...new Set([primaryKeyField, ...fields, ...conditionFields])],
           limit: keys.length,
         });
 
-        mutationsInProgress[fingerprint] = {
-          timestamp: Date.now(),
-          event,
-          keys,
-          fields: fields as string[],
-          current: currentItems.map((item) => {
-            const key = item[primaryKeyField];
-            const data = { ...item };
-            delete data[primaryKeyField];
-            return { key, data };
-          }),
-        };
+        const now = Date.now();
+        keys.forEach((key, index) => {
+          const item = currentItems.find((item) => `${item[primaryKeyField]}` === `${key}`);
+          const previous = item ? { ...item } : null;
+          if (previous) {
+            delete previous[primaryKeyField];
+          }
+          const prepared = mutationsInProgress.get(`${key}`) ?? [];
+          prepared.push({
+            timestamp: now,
+            fields:
+              monitorOptions.fields.length === 0 && (monitorOptions.includeUnchanged || eventName === 'delete')
+                ? Object.keys(previous ?? {})
+                : fieldsPerKey[index]!,
+            payload: eventName === 'delete' ? {} : getKeyPayload(payload, key, primaryKeyField),
+            previous,
+          });
+          mutationsInProgress.set(`${key}`, prepared);
+        });
+        stats.prepared += keys.length;
+        stats.pending += keys.length;
 
         // Check if there are very old mutations in progress that we should remove.
         // This can happen if a database update failed, so the corresponding action hook never fired
         // and no new update was executed on the same item(s) afterwards.
-        const now = Date.now();
-        // eslint-disable-next-line no-magic-numbers
-        const FIVE_MINUTES = 1000 * 60 * 5;
-        const oldMutations = Object.keys(mutationsInProgress).filter(
-          (key) => now - (mutationsInProgress[key] as any).timestamp > FIVE_MINUTES,
-        );
-        for (const fingerprint of oldMutations) {
-          logger.warn(
-            `removing old in progress mutation ${fingerprint} because the corresponding action hook never fired`,
-          );
-          delete mutationsInProgress[fingerprint];
+        const expiredKeys = [] as PrimaryKey[];
+        for (const [key, prepared] of mutationsInProgress) {
+          const remaining = prepared.filter((mutation) => now - mutation.timestamp <= FIVE_MINUTES);
+          expiredKeys.push(...Array<PrimaryKey>(prepared.length - remaining.length).fill(key));
+          if (remaining.length === 0) {
+            mutationsInProgress.delete(key);
+          } else if (remaining.length < prepared.length) {
+            mutationsInProgress.set(key, remaining);
+          }
         }
+        stats.pending -= expiredKeys.length;
+        drop('expired', collection, event, expiredKeys);
       });
 
+      /**
+       * Takes the prepared mutation for given key from the in progress state. If multiple mutations of the key are
+       * in progress, the oldest one with a matching payload is used
+       */
+      const takePreparedMutation = (key: PrimaryKey, payload: Item) => {
+        const prepared = mutationsInProgress.get(`${key}`);
+        if (!prepared) {
+          return undefined;
+        }
+        const index = Math.max(
+          prepared.findIndex((mutation) => isSamePayload(mutation.payload, payload)),
+          0,
+        );
+        const [mutation] = prepared.splice(index, 1);
+        if (prepared.length === 0) {
+          mutationsInProgress.delete(`${key}`);
+        }
+        stats.pending--;
+        return mutation;
+      };
+
       // Use action hook to trigger the callback after data has been committed to the database
       action(event, async (meta, context) => {
         const { collection, payload } = meta;
+        const timestamp = new Date().toISOString();
         const eventName = meta.event.split('.').pop() as 'create' | 'update' | 'delete';
         if (eventName === 'create') {
           // Shortcut for create events, we don't need to compare with previous data
+          if (!meetsConditions(null, payload, context.schema!, context.accountability)) {
+            return;
+          }
           const current = { ...payload };
           // Remove fields not being monitored
-          for (const key of Object.keys(current) as K[]) {
-            if (!monitorOptions.fields.includes(key)) {
+          for (const key of Object.keys(current)) {
+            if (!isMonitored(key)) {
               delete current[key];
             }
           }
           // Set monitored fields not being set to null
-          for (const field of monitorOptions.fields) {
+          for (const field of topFields) {
             if (typeof current[field] === 'undefined') {
               current[field] = null;
             }
           }
-          try {
-            const mutations = [{ action: 'create', key: meta.key, previous: {}, current }] as Parameters<
-              typeof handler
-            >[0]; //as FivesparkMonitorHookMutations<ItemType, false>;
-            await handler(mutations, { collection, event, payload }, context as any);
-          } catch (error) {
-            logger.error(`Error in monitor hook handler for event ${event}`, error);
-          }
+          const mutations = [{ action: 'create', key: meta.key, previous: {}, current, timestamp }] as Parameters<
+            typeof handler
+          >[0]; //as FivesparkMonitorHookMutations<ItemType, false>;
+          await deliver(mutations, { collection, event, payload }, context as any);
           return;
         }
-        const keys = (meta.keys ?? [meta.key]) as PrimaryKey[];
-
-        // Fingerprint this event so we can get it from the mutationsInProgress object
-        const fingerprint = createFingerprint(event, keys);
-        const mutation = mutationsInProgress[fingerprint];
-        if (!mutation) {
-          // No matching mutation from filter hook?
-          logger.warn(`No matching filter hook for action hook with fingerprint ${fingerprint}`);
+        if (eventName === 'update' && !monitorsTopFields) {
           return;
         }
-        // Remove from state
-        delete mutationsInProgress[fingerprint];
+        const primaryKeyField = context.schema!.collections[collection]!.primary;
+        const keys = (meta.keys ?? [meta.key]) as PrimaryKey[];
 
-        if (event.endsWith('.items.delete')) {
-          // Shortcut for delete events, we don't need to compare with previous data
-          try {
-            const mutations = mutation.current.map((m) => ({
-              action: 'delete',
-              key: m.key,
-              previous: m.data,
-              current: {},
-              hasChanged(field, from, to) {
-                return false;
-              },
-            })) as Parameters<typeof handler>[0]; // as FivesparkMonitorHookMutations<ItemType, false>;
-            await handler(mutations, { collection, event, payload }, context as any);
-          } catch (error) {
-            logger.error(`Error in monitor hook handler for event ${event}`, error);
+        // Correlate every key with the mutation prepared by the filter hook
+        const prepared = [] as Array<{ key: PrimaryKey; payload: Item; mutation: PreparedMutation }>;
+        const unmatchedKeys = [] as PrimaryKey[];
+        const notFoundKeys = [] as PrimaryKey[];
+        for (const key of keys) {
+          const keyPayload = eventName === 'delete' ? {} : getKeyPayload(payload, key, primaryKeyField);
+          const mutation = takePreparedMutation(key, keyPayload);
+          if (!mutation) {
+            unmatchedKeys.push(key);
+          } else if (!mutation.previous) {
+            notFoundKeys.push(key);
+          } else {
+            prepared.push({ key, payload: keyPayload, mutation });
           }
         }
+        stats.correlated += keys.length - unmatchedKeys.length;
+        drop('no_filter', collection, event, unmatchedKeys);
+        drop('not_found', collection, event, notFoundKeys);
 
-        // Check if the fields changed (might happen if other filter hooks changed the data to be saved)
-        // Remove current data for fields not being updated after all
-        const fields = monitorOptions.includeUnchanged
-          ? monitorOptions.fields
-          : (Object.keys(payload) as K[]).filter(
-              (field) => monitorOptions.fields.length === 0 || monitorOptions.fields.includes(field),
-            );
-        const removedFields = mutation.fields.filter((field) => !fields.includes(field as K));
-        for (const removedField of removedFields) {
-          mutation.current.forEach((item) => delete item.data[removedField as K]);
-        }
-        // Warn about added fields
-        const addedFields = fields.filter((field) => !mutation.fields.includes(field as string));
-        for (const addedField of addedFields) {
-          logger.warn(
-            `Field ${addedField as string} was added by another filter hook after the mutation was prepared for event ${event}`,
+        if (eventName === 'delete') {
+          // Shortcut for delete events, we don't need to compare with previous data
+          const deleted = prepared.filter(({ mutation }) =>
+            meetsConditions(mutation.previous, null, context.schema!, context.accountability),
           );
+          if (deleted.length === 0) {
+            return;
+          }
+          const mutations = deleted.map(({ key, mutation }) => ({
+            action: 'delete',
+            key,
+            previous: pickFields(mutation.previous!, mutation.fields),
+            current: {},
+            timestamp,
+            hasChanged(field, from, to) {
+              return false;
+            },
+          })) as Parameters<typeof handler>[0]; // as FivesparkMonitorHookMutations<ItemType, false>;
+          await deliver(mutations, { collection, event, payload }, context as any);
+          return;
         }
 
-        // Prepare mutations array
+        // Prepare mutations array, comparing values by the types of their fields
+        const schema = context.schema!;
+        const isEqual = getComparator(schema);
         const mutations = [] as Parameters<typeof handler>[0];
-        for (const key of keys) {
-          const previous = (mutation.current.find((item) => `${item.key}` === `${key}`) as any).data as ItemType;
+        for (const { key, payload: keyPayload, mutation } of prepared) {
+          if (
+            !meetsConditions(mutation.previous, { ...mutation.previous, ...keyPayload }, schema, context.accountability)
+          ) {
+            continue;
+          }
+
+          // Check if the fields changed (might happen if other filter hooks changed the data to be saved)
+          // Only keep previous data for fields being updated after all
+          const fields = monitorOptions.includeUnchanged
+            ? mutation.fields
+            : Object.keys(keyPayload).filter(isMonitored);
+          const previous = pickFields(mutation.previous!, fields) as ItemType;
+          // Warn about added fields
+          const addedFields = fields.filter((field) => !mutation.fields.includes(field));
+          for (const addedField of addedFields) {
+            logger.warn(
+              `Field ${addedField} was added by another filter hook after the mutation was prepared for event ${event}`,
+            );
+          }
+
+          // Compute the new data from this item's own payload
           const current = {
             ...(monitorOptions.includeUnchanged ? previous : {}),
-            ...payload,
-          };
+            ...keyPayload,
+          } as ItemType;
 
-          const hasChangesToMonitoredFields = monitorOptions.fields.some((field) => previous[field] !== current[field]);
+          const hasChangesToMonitoredFields = [...Object.keys(previous), ...Object.keys(current)].some(
+            (field) => isMonitored(field) && !isEqual(field, previous[field], current[field]),
+          );
           if (hasChangesToMonitoredFields) {
             // Shake out fields not being monitored and fields that didn't change (unless includeUnchanged is set to true)
             for (const field of [...Object.keys(previous), ...Object.keys(current)]) {
               if (
-                !monitorOptions.fields.includes(field as K) ||
-                (!monitorOptions.includeUnchanged && previous[field] === current[field])
+                !isMonitored(field) ||
+                (!monitorOptions.includeUnchanged && isEqual(field, previous[field], current[field]))
               ) {
                 delete previous[field];
                 delete current[field];
@@ -285,26 +978,282 @@ export function createMonitorHook(
               key,
               previous,
               current,
-              hasChanged(field, from, to) {
-                return (
-                  this.previous[field] !== this.current[field] &&
-                  (typeof from === 'undefined' || this.previous[field] === from) &&
-                  (typeof to === 'undefined' || this.current[field] === to)
-                );
-              },
+              timestamp,
+              hasChanged: createHasChanged(isEqual),
             });
           }
         }
 
         // Now call the handler with mutations array as payload
         if (mutations.length > 0) {
+          await deliver(mutations, { collection, event, payload }, context as any);
+        }
+      });
+    });
+
+    // Changes to nested paths are detected by reading the nested data of the affected items before (filter hooks)
+    // and after (action hooks) mutations in any collection on the way. Changes are reported as updates of the items
+    if (nestedPaths.length > 0 && monitorOptions.events.includes('update')) {
+      // Nested data of affected items before the mutations in progress, per key. `pending` is the number of mutations
+      // in progress for the item, the data is replaced by the new data once a mutation has been reported
+      const snapshots = new Map<string, { timestamp: number; data: Item | null; pending: number }>();
+      // Affected items of updates and deletes in progress, per event and key of the mutated item
+      const affectedInProgress = new Map<string, PrimaryKey[][]>();
+      const resolvedPaths = new WeakMap<SchemaOverview, MonitoredPath[]>();
+      const getPaths = (schema: SchemaOverview) => {
+        const paths =
+          resolvedPaths.get(schema) ?? nestedPaths.map((path) => resolvePath(schema, monitorCollection, path));
+        resolvedPaths.set(schema, paths);
+        return paths;
+      };
+      const topPathFields = [...new Set(nestedPaths.map((path) => path.split('.')[0]!))];
+
+      const getItemsService = (context: { schema: SchemaOverview; accountability: any; database?: any }) =>
+        new directus.services.ItemsService<ItemType>(monitorCollection, {
+          schema: context.schema,
+          accountability: monitorOptions.useAccountability ? context.accountability : null,
+          knex: context.database,
+        });
+
+      /**
+       * Reads the nested data (and fields used in conditions) of given items
+       */
+      const readSnapshots = async (keys: PrimaryKey[], context: Parameters<typeof getItemsService>[0]) => {
+        const primaryKeyField = context.schema.collections[monitorCollection]!.primary;
+        const items =
+          keys.length === 0
+            ? []
+            : await getItemsService(context).readMany(keys, {
+                fields: [
+                  ...new Set([
+                    primaryKeyField,
+                    ...getPaths(context.schema).flatMap((path) => path.readFields),
+                    ...conditionFields,
+                  ]),
+                ],
+                limit: keys.length,
+              });
+        return new Map(items.map((item) => [`${item[primaryKeyField]}`, item as Item]));
+      };
+
+      /**
+       * Gets the keys of monitored items that have given items of the collection at given depth of a path
+       */
+      const findItemKeys = async (
+        path: MonitoredPath,
+        depth: number,
+        keys: PrimaryKey[],
+        context: Parameters<typeof getItemsService>[0],
+      ) => {
+        if (depth === 0 || keys.length === 0) {
+          return keys;
+        }
+        const { schema } = context;
+        const collection = path.steps[depth - 1]!.related;
+        const primaryKeyField = schema.collections[monitorCollection]!.primary;
+        const filter = path.steps
+          .slice(0, depth)
+          .reduceRight<Filter>((filter, step) => ({ [step.field]: filter }) as Filter, {
+            [schema.collections[collection]!.primary]: { _in: keys },
+          } as Filter);
+        const items = await getItemsService(context).readByQuery({ filter, fields: [primaryKeyField], limit: -1 });
+        return items.map((item) => item[primaryKeyField] as PrimaryKey);
+      };
+
+      /**
+       * Gets the keys of monitored items affected by a mutation in given collection
+       * @param includeForeignKeys whether to include items referred to by foreign keys in the payload, eg the new
+       * order of a moved order line. Those are found by querying in the action hook, after the mutation
+       */
+      const getAffectedKeys = async (
+        collection: string,
+        eventName: 'create' | 'update' | 'delete',
+        keys: PrimaryKey[],
+        payload: unknown,
+        context: Parameters<typeof getItemsService>[0],
+        includeForeignKeys: boolean,
+      ) => {
+        const payloads = (eventName === 'delete' ? [] : payload instanceof Array ? payload : [payload]) as Item[];
+        const isTouched = (field: string | undefined) =>
+          eventName !== 'update' ||
+          payloads.some((payload) => payload && typeof payload === 'object' && field! in payload);
+        const affected = [] as PrimaryKey[];
+        for (const path of getPaths(context.schema)) {
+          const fields = path.path.split('.');
+          if (collection === monitorCollection && eventName === 'update' && isTouched(fields[0])) {
+            affected.push(...keys);
+          }
+          for (const [index, step] of path.steps.entries()) {
+            if (
+              step.related !== collection ||
+              !(isTouched(fields[index + 1]) || (step.foreignKey && isTouched(step.foreignKey)))
+            ) {
+              continue;
+            }
+            affected.push(...(await findItemKeys(path, index + 1, keys, context)));
+            if (includeForeignKeys && step.foreignKey) {
+              const parentPrimaryKeyField = context.schema.collections[step.collection]!.primary;
+              const parentKeys = payloads
+                .map((payload) => payload?.[step.foreignKey!])
+                .map((value) => (value && typeof value === 'object' ? value[parentPrimaryKeyField] : value))
+                .filter((value) => value !== null && typeof value !== 'undefined');
+              affected.push(...(await findItemKeys(path, index, parentKeys, context)));
+            }
+          }
+        }
+        return [...new Map(affected.map((key) => [`${key}`, key])).values()];
+      };
+
+      for (const nestedEvent of ['items.create', 'items.update', 'items.delete']) {
+        filter(nestedEvent, async (payload: unknown, meta, context) => {
+          const eventName = meta.event.split('.').pop() as 'create' | 'update' | 'delete';
+          const keys =
+            eventName === 'delete'
+              ? [...(payload as PrimaryKey[])]
+              : eventName === 'update'
+                ? [...((meta.keys ?? [meta.key]) as PrimaryKey[])]
+                : [];
+          try {
+            const affectedKeys = await getAffectedKeys(meta.collection, eventName, keys, payload, context, true);
+            if (affectedKeys.length === 0) {
+              return;
+            }
+            for (const key of keys) {
+              const inProgress = affectedInProgress.get(`${meta.event}:${key}`) ?? [];
+              inProgress.push(affectedKeys);
+              affectedInProgress.set(`${meta.event}:${key}`, inProgress);
+            }
+            const now = Date.now();
+            const items = await readSnapshots(
+              affectedKeys.filter((key) => !snapshots.has(`${key}`)),
+              context,
+            );
+            for (const key of affectedKeys) {
+              const snapshot = snapshots.get(`${key}`);
+              if (snapshot) {
+                snapshot.pending++;
+              } else {
+                snapshots.set(`${key}`, { timestamp: now, data: items.get(`${key}`) ?? null, pending: 1 });
+              }
+            }
+            stats.prepared += affectedKeys.length;
+            stats.pending += affectedKeys.length;
+
+            // Remove snapshots of mutations of which the action hook never fired
+            const expiredKeys = [] as PrimaryKey[];
+            for (const [key, snapshot] of snapshots) {
+              if (now - snapshot.timestamp > FIVE_MINUTES) {
+                expiredKeys.push(...Array<PrimaryKey>(snapshot.pending).fill(key));
+                snapshots.delete(key);
+              }
+            }
+            stats.pending -= expiredKeys.length;
+            drop('expired', monitorCollection, `${meta.collection}.${meta.event}`, expiredKeys);
+          } catch (error) {
+            // Never prevent the mutation itself
+            logger.error(`Error preparing nested mutations for event ${meta.collection}.${meta.event}`, error);
+          }
+        });
+
+        action(nestedEvent, async (meta, context) => {
+          const eventName = meta.event.split('.').pop() as 'create' | 'update' | 'delete';
+          const timestamp = new Date().toISOString();
+          // Event of the collection that was mutated, eg `order_lines.items.create`
+          const event = `${meta.collection}.${meta.event}`;
+          const keys = (meta.keys ?? [meta.key]) as PrimaryKey[];
+          const preparedKeys = keys.flatMap((key) => {
+            const inProgress = affectedInProgress.get(`${meta.event}:${key}`);
+            const affectedKeys = inProgress?.shift() ?? [];
+            if (inProgress?.length === 0) {
+              affectedInProgress.delete(`${meta.event}:${key}`);
+            }
+            return affectedKeys;
+          });
+          const nestedContext = context as Parameters<typeof getItemsService>[0];
+          const mutations = [] as Parameters<typeof handler>[0];
+          const unmatchedKeys = [] as PrimaryKey[];
+          const notFoundKeys = [] as PrimaryKey[];
           try {
-            await handler(mutations, { collection, event, payload }, context as any);
+            const affectedKeys = [
+              ...new Map(
+                [
+                  ...preparedKeys,
+                  ...(eventName === 'delete'
+                    ? []
+                    : await getAffectedKeys(meta.collection, eventName, keys, meta.payload, nestedContext, false)),
+                ].map((key) => [`${key}`, key]),
+              ).values(),
+            ];
+            if (affectedKeys.length === 0) {
+              return;
+            }
+            // Reading and replacing snapshots must not interleave, or the same change could be reported twice
+            await withLock(`monitor hook ${hookId}`, async () => {
+              const preparedAffectedKeys = affectedKeys.filter((key) => snapshots.has(`${key}`));
+              unmatchedKeys.push(...affectedKeys.filter((key) => !snapshots.has(`${key}`)));
+              const items = await readSnapshots(preparedAffectedKeys, nestedContext);
+              for (const key of preparedAffectedKeys) {
+                const snapshot = snapshots.get(`${key}`)!;
+                const previous = snapshot.data;
+                const current = items.get(`${key}`) ?? null;
+                snapshot.pending--;
+                snapshot.data = current;
+                snapshot.timestamp = Date.now();
+                if (snapshot.pending <= 0) {
+                  snapshots.delete(`${key}`);
+                }
+                stats.pending--;
+                stats.correlated++;
+                if (!previous) {
+                  notFoundKeys.push(key);
+                  continue;
+                }
+                if (!current) {
+                  // Deleted in the meantime
+                  continue;
+                }
+                const isEqual = getComparator(nestedContext.schema);
+                const changedFields = topPathFields.filter((field) => !isEqual(field, previous[field], current[field]));
+                if (
+                  changedFields.length > 0 &&
+                  meetsConditions(previous, current, nestedContext.schema, context.accountability)
+                ) {
+                  const fields = monitorOptions.includeUnchanged ? topPathFields : changedFields;
+                  mutations.push({
+                    action: 'update',
+                    key,
+                    previous: pickFields(previous, fields) as ItemType,
+                    current: pickFields(current, fields) as ItemType,
+                    timestamp,
+                    hasChanged: createHasChanged(isEqual),
+                  });
+                }
+              }
+            });
           } catch (error) {
-            logger.error(`Error in monitor hook handler for event ${event}`, error);
+            logger.error(`Error processing nested mutations for event ${event}`, error);
+          }
+          drop('no_filter', monitorCollection, event, unmatchedKeys);
+          drop('not_found', monitorCollection, event, notFoundKeys);
+
+          if (mutations.length > 0) {
+            await deliver(mutations, { collection: monitorCollection, event, payload: meta.payload }, context as any);
           }
+        });
+      }
+    }
+
+    return {
+      getStats() {
+        return { ...stats, debounced: debounced.size, dropped: { ...stats.dropped } };
+      },
+      async replay(ids) {
+        if (!outbox) {
+          throw new Error(`Cannot replay mutations of monitor hook ${hookId}, it is not durable`);
         }
-      });
-    });
+        return outbox.replay(ids);
+      },
+      flush,
+    };
   };
 }
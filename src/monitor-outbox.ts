@@ -0,0 +1,322 @@
+import type { DirectusRuntimeContext, PrimaryKey } from './directus.js';
+import { logSyncError } from './errors.js';
+import { LockTimeoutError, MemoryLockBackend, type LockBackend } from './thread-safe.js';
+import type { MonitorOutboxItem } from './types/items.js';
+
+export type MonitorOutboxOptions = {
+  /**
+   * Unique name of the monitor, used to find its entries in the outbox after a restart. Don't change it while
+   * entries are pending, or they will never be delivered
+   */
+  name: string;
+  /**
+   * Number of times to retry delivering mutations before they are dead-lettered
+   * @default 8
+   */
+  retries?: number;
+  /**
+   * Time (ms) to wait before the first retry, doubled for every next retry
+   * @default 10000
+   */
+  retryDelay?: number;
+  /**
+   * Maximum time (ms) to wait before a retry
+   * @default 3600000
+   */
+  maxRetryDelay?: number;
+  /**
+   * Time (ms) between checks for entries that are due, including entries left by a previous run
+   * @default 5000
+   */
+  pollInterval?: number;
+  /**
+   * Lock backend used to make sure entries are delivered by one instance at a time.
+   * Use a `DatabaseLockBackend` when running multiple Directus instances
+   * @default new MemoryLockBackend({ logger: directus.logger })
+   */
+  locks?: LockBackend;
+};
+
+/**
+ * Mutation as stored in the outbox, `hasChanged` is recreated on delivery
+ */
+export type MonitorOutboxMutation = {
+  action: 'create' | 'update' | 'delete';
+  key: PrimaryKey;
+  previous: Record<string, any>;
+  current: Record<string, any>;
+  timestamp: string;
+};
+
+export type MonitorOutboxEntry = Pick<
+  MonitorOutboxItem,
+  'collection' | 'event' | 'keys' | 'mutations' | 'payload' | 'accountability'
+>;
+
+const OUTBOX_COLLECTION = 'monitor_outbox';
+const DEFAULT_RETRIES = 8;
+const DEFAULT_RETRY_DELAY = 10000;
+const DEFAULT_MAX_RETRY_DELAY = 1000 * 60 * 60;
+const DEFAULT_POLL_INTERVAL = 5000;
+const BATCH_SIZE = 100;
+
+/**
+ * Resets dead-lettered entries of the `monitor_outbox` collection, so they are delivered again (with a fresh set of
+ * retries) by the monitor they belong to
+ * @example
+ * ```ts
+ * // Replay all dead entries of the 'erp-orders' monitor once the ERP is back up
+ * await replayMonitorOutbox(directus, { monitor: 'erp-orders' });
+ * ```
+ * @param directus the directus context
+ * @param options only replay entries of given monitor, or with given ids
+ * @returns primary keys of the replayed entries
+ */
+export async function replayMonitorOutbox(
+  directus: DirectusRuntimeContext,
+  options: { monitor?: string; ids?: PrimaryKey[] } = {},
+) {
+  const schema = await directus.getSchema();
+  const outboxService = new directus.services.ItemsService<MonitorOutboxItem>(OUTBOX_COLLECTION, { schema });
+  return outboxService.updateByQuery(
+    {
+      filter: {
+        _and: [
+          { status: { _eq: 'dead' } },
+          ...(options.monitor ? [{ monitor: { _eq: options.monitor } }] : []),
+          ...(options.ids ? [{ id: { _in: options.ids } }] : []),
+        ],
+      },
+      limit: -1,
+    },
+    { status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() },
+    { emitEvents: false },
+  );
+}
+
+/**
+ * Stores mutations of a monitor hook in the `monitor_outbox` collection, and delivers them to a handler in the order
+ * they were added. Entries are removed once delivered, failed deliveries are retried with exponential backoff and
+ * block later entries of the same keys until they succeed. Entries that keep failing are marked `dead`, logged with
+ * `logSyncError` and no longer block other entries, use `replayMonitorOutbox` to deliver them again.
+ * Pending entries are picked up again after a restart, so mutations are delivered at least once.
+ *
+ * In order for this to work, you have to create a collection called `monitor_outbox` in your Directus project,
+ * you can merge the "collections" and "fields" entries from monitor-outbox.schema.json into your own schema.json file,
+ * or call `ensureSchema(directus, { schemas: ['monitor-outbox'] })` from a hook's `init` event to create it automatically
+ */
+export class MonitorOutbox {
+  private readonly settings: Required<MonitorOutboxOptions>;
+
+  private readonly timer: ReturnType<typeof setInterval>;
+
+  private flushing: Promise<void> | null = null;
+
+  private flushAgain = false;
+
+  private warnedMissing = false;
+
+  constructor(
+    private readonly directus: DirectusRuntimeContext,
+    private readonly deliver: (entry: MonitorOutboxItem) => Promise<void>,
+    options: MonitorOutboxOptions,
+  ) {
+    this.settings = {
+      retries: DEFAULT_RETRIES,
+      retryDelay: DEFAULT_RETRY_DELAY,
+      maxRetryDelay: DEFAULT_MAX_RETRY_DELAY,
+      pollInterval: DEFAULT_POLL_INTERVAL,
+      locks: new MemoryLockBackend({ logger: directus.logger }),
+      ...options,
+    };
+    this.timer = setInterval(() => this.flush(), this.settings.pollInterval);
+    this.timer.unref?.(); // Don't keep the process alive, pending entries are delivered after a restart
+  }
+
+  get name() {
+    return this.settings.name;
+  }
+
+  /**
+   * Writes an entry to the outbox and starts delivering it
+   */
+  async add(entry: MonitorOutboxEntry) {
+    const schema = await this.directus.getSchema();
+    const outboxService = new this.directus.services.ItemsService<MonitorOutboxItem>(OUTBOX_COLLECTION, { schema });
+    await outboxService.createOne(
+      {
+        ...entry,
+        monitor: this.settings.name,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+      },
+      { emitEvents: false },
+    );
+    await this.flush();
+  }
+
+  /**
+   * Delivers all entries that are due. Errors are logged, never thrown
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      // Entries added in the meantime are delivered by another round of the current flush
+      this.flushAgain = true;
+      return this.flushing;
+    }
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          await this.deliverDue();
+        } while (this.flushAgain);
+      } catch (err: any) {
+        this.directus.logger.error(
+          `MonitorOutbox ${this.settings.name}: Failed to deliver entries: ${err?.message ?? err}`,
+        );
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  /**
+   * Replays dead-lettered entries of this outbox, see `replayMonitorOutbox`
+   * @param ids only replay entries with given ids
+   * @returns primary keys of the replayed entries
+   */
+  async replay(ids?: PrimaryKey[]) {
+    const replayed = await replayMonitorOutbox(this.directus, { monitor: this.settings.name, ids });
+    this.flush();
+    return replayed;
+  }
+
+  /**
+   * Stops polling for due entries, and waits for the current delivery to finish
+   */
+  async stop() {
+    clearInterval(this.timer);
+    await this.flushing;
+  }
+
+  private async deliverDue() {
+    const { name, locks } = this.settings;
+    const schema = await this.directus.getSchema();
+    if (!schema.collections[OUTBOX_COLLECTION]) {
+      if (!this.warnedMissing) {
+        this.warnedMissing = true;
+        this.directus.logger.warn(`MonitorOutbox ${name}: Collection ${OUTBOX_COLLECTION} does not exist`);
+      }
+      return;
+    }
+
+    let lock;
+    try {
+      lock = await locks.acquire(`monitor outbox ${name}`, false, { timeout: 0 });
+    } catch (err) {
+      if (err instanceof LockTimeoutError) {
+        // Being delivered by another instance
+        return;
+      }
+      throw err;
+    }
+    try {
+      const outboxService = new this.directus.services.ItemsService<MonitorOutboxItem>(OUTBOX_COLLECTION, { schema });
+      const now = new Date().toISOString();
+      const pending = { monitor: { _eq: name }, status: { _eq: 'pending' } };
+      // Lowest id of the entries per key that are not delivered yet, later entries of the same keys have to wait for them
+      const blockedKeys = new Map<string, number>();
+      const block = (entry: Pick<MonitorOutboxItem, 'id' | 'keys'>) => {
+        for (const key of entry.keys ?? []) {
+          if (!blockedKeys.has(`${key}`) || blockedKeys.get(`${key}`)! > entry.id) {
+            blockedKeys.set(`${key}`, entry.id);
+          }
+        }
+      };
+      const waiting = await outboxService.readByQuery({
+        filter: { ...pending, next_attempt_at: { _gt: now } },
+        fields: ['id', 'keys'],
+        limit: -1,
+      });
+      waiting.forEach(block);
+
+      // Page through all due entries, so entries of other keys are not held up by a long run of blocked entries
+      let lastId: number | null = null;
+      while (true) {
+        const entries = await outboxService.readByQuery({
+          filter: {
+            _and: [
+              pending,
+              { _or: [{ next_attempt_at: { _null: true } }, { next_attempt_at: { _lte: now } }] },
+              ...(lastId !== null ? [{ id: { _gt: lastId } }] : []),
+            ],
+          },
+          sort: ['id'],
+          limit: BATCH_SIZE,
+        });
+        for (const entry of entries) {
+          const isBlocked = (entry.keys ?? []).some((key) => (blockedKeys.get(`${key}`) ?? Infinity) < entry.id);
+          if (isBlocked || !(await this.deliverEntry(entry))) {
+            block(entry);
+          }
+        }
+        if (entries.length < BATCH_SIZE) {
+          break;
+        }
+        lastId = entries[entries.length - 1]!.id;
+      }
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Delivers a single entry, and removes it or schedules a retry
+   * @returns whether the entry was delivered
+   */
+  private async deliverEntry(entry: MonitorOutboxItem) {
+    const { name, retries, retryDelay, maxRetryDelay } = this.settings;
+    const schema = await this.directus.getSchema();
+    const outboxService = new this.directus.services.ItemsService<MonitorOutboxItem>(OUTBOX_COLLECTION, { schema });
+    const attempts = entry.attempts + 1;
+    try {
+      await this.deliver(entry);
+    } catch (err: any) {
+      const lastError = err instanceof Error ? (err.stack ?? err.message) : String(err);
+      if (attempts > retries) {
+        await outboxService.updateOne(
+          entry.id,
+          { status: 'dead', attempts, last_error: lastError },
+          { emitEvents: false },
+        );
+        logSyncError(this.directus, {
+          sourceService: 'directus',
+          sourceCollection: entry.collection,
+          sourceId: entry.keys.join(', '),
+          targetService: name,
+          targetCollection: entry.event,
+          error: err instanceof Error ? err : String(err),
+          customMessage: `Monitor hook ${name} failed to deliver outbox entry ${entry.id} after ${attempts} attempts`,
+          debugData: { outboxEntry: entry.id, mutations: entry.mutations },
+        }).catch((logErr) =>
+          this.directus.logger.error(`MonitorOutbox ${name}: Failed to log sync error: ${logErr?.message ?? logErr}`),
+        );
+      } else {
+        const delay = Math.min(retryDelay * 2 ** (attempts - 1), maxRetryDelay);
+        this.directus.logger.warn(
+          `MonitorOutbox ${name}: Entry ${entry.id} failed (attempt ${attempts}), retrying in ${delay}ms: ${err?.message ?? err}`,
+        );
+        await outboxService.updateOne(
+          entry.id,
+          { attempts, last_error: lastError, next_attempt_at: new Date(Date.now() + delay).toISOString() },
+          { emitEvents: false },
+        );
+      }
+      return false;
+    }
+    await outboxService.deleteOne(entry.id, { emitEvents: false });
+    return true;
+  }
+}
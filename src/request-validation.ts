@@ -0,0 +1,152 @@
+import type { NextFunction } from 'express';
+import type { ApiEndpointRequest, ApiEndpointResponse, ApiEndpointRouter } from './directus.js';
+import { HTTP_STATUS } from './http-status-codes.js';
+
+/**
+ * Minimal interface of a validation schema. Compatible with `zod` schemas, but any library (or hand-written
+ * validator) that implements `safeParse` can be used.
+ */
+export interface RequestSchema<Output = any> {
+  safeParse(
+    data: unknown,
+  ):
+    | { success: true; data: Output }
+    | { success: false; error: { issues: Array<{ path: Array<string | number>; message: string }> } };
+}
+
+/**
+ * Infers the validated (output) type of a schema
+ */
+export type InferRequestSchema<Schema, Fallback = any> = Schema extends RequestSchema<infer Output> ? Output : Fallback;
+
+/**
+ * Validation schemas for the different parts of a request
+ */
+export type RequestSchemas = {
+  params?: RequestSchema;
+  query?: RequestSchema;
+  body?: RequestSchema;
+};
+
+/**
+ * Request type of a handler with validated params, query and body
+ */
+export type ValidatedRequest<Schemas extends RequestSchemas> = ApiEndpointRequest<
+  InferRequestSchema<Schemas['query']>,
+  InferRequestSchema<Schemas['body']>,
+  any,
+  InferRequestSchema<Schemas['params']>
+>;
+
+export type ValidatedRequestHandler<Schemas extends RequestSchemas> = (
+  req: ValidatedRequest<Schemas>,
+  res: ApiEndpointResponse,
+  next: NextFunction,
+) => any;
+
+type ValidatedRouteMethod = <Schemas extends RequestSchemas>(
+  route: string,
+  schemas: Schemas,
+  ...handlers: Array<ValidatedRequestHandler<Schemas>>
+) => ApiEndpointRouter;
+
+/**
+ * Route definition methods that validate the request before calling the handlers
+ */
+export type ValidatedRouteMethods = {
+  get: ValidatedRouteMethod;
+  post: ValidatedRouteMethod;
+  put: ValidatedRouteMethod;
+  patch: ValidatedRouteMethod;
+  delete: ValidatedRouteMethod;
+};
+
+export type RequestValidationIssue = {
+  /** Part of the request the issue was found in */
+  location: keyof RequestSchemas;
+  /** Dot-notated path to the invalid field, eg `lines.0.quantity`. Empty if the whole part is invalid */
+  path: string;
+  message: string;
+};
+
+const REQUEST_PARTS = ['params', 'query', 'body'] as const;
+
+/**
+ * Returns a middleware that validates the params, query and body of a request with given schemas.
+ * Valid values are replaced by the parsed output of the schemas (eg with coerced types and defaults applied).
+ * Invalid requests get a 400 response listing all issues:
+ * ```json
+ * {
+ *   "errors": [
+ *     { "message": "Expected number, received string", "extensions": { "code": "INVALID_REQUEST", "location": "body", "path": "lines.0.quantity" } }
+ *   ]
+ * }
+ * ```
+ * @param schemas schemas to validate the request parts with
+ * @returns a middleware function
+ */
+export function validateRequest(schemas: RequestSchemas) {
+  return function validationMiddleware(req: ApiEndpointRequest, res: ApiEndpointResponse, next: NextFunction) {
+    const issues = [] as RequestValidationIssue[];
+    const parsed = {} as Partial<Record<keyof RequestSchemas, unknown>>;
+    for (const location of REQUEST_PARTS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        issues.push(
+          ...result.error.issues.map((issue) => ({ location, path: issue.path.join('.'), message: issue.message })),
+        );
+      }
+    }
+
+    if (issues.length > 0) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json({
+        errors: issues.map(({ message, ...extensions }) => ({
+          message,
+          extensions: { code: 'INVALID_REQUEST', ...extensions },
+        })),
+      });
+      return;
+    }
+
+    for (const location of REQUEST_PARTS) {
+      if (location in parsed) {
+        // Not assigning directly, `req.query` is a getter in newer Express versions
+        Object.defineProperty(req, location, { value: parsed[location], writable: true, configurable: true });
+      }
+    }
+    next();
+  };
+}
+
+/**
+ * Creates route definition methods with request validation for given router
+ * @example
+ * ```ts
+ * router.validated.post(
+ *   '/orders/:id',
+ *   { params: z.object({ id: z.coerce.number() }), body: z.object({ status: z.enum(['open', 'closed']) }) },
+ *   async (req, res) => {
+ *     // req.params.id is a number, req.body.status is 'open' | 'closed'
+ *   },
+ * );
+ * ```
+ */
+export function createValidatedRouteMethods(router: ApiEndpointRouter): ValidatedRouteMethods {
+  const createMethod =
+    (method: keyof ValidatedRouteMethods): ValidatedRouteMethod =>
+    (route, schemas, ...handlers) =>
+      router[method](route, validateRequest(schemas), ...handlers);
+  return {
+    get: createMethod('get'),
+    post: createMethod('post'),
+    put: createMethod('put'),
+    patch: createMethod('patch'),
+    delete: createMethod('delete'),
+  };
+}
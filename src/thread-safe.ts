@@ -1,13 +1,69 @@
 import EventEmitter from 'events';
 
-type LockQueueItem = { shared: boolean; grant(): void };
+type LockQueueItem = { shared: boolean; grant(): void; options: AcquireLockOptions };
+
+export type AcquireLockOptions = {
+  /**
+   * Maximum time (ms) to wait for the lock, rejects with a `LockTimeoutError` when exceeded
+   */
+  timeout?: number;
+  /**
+   * Signal to cancel waiting for the lock, rejects with the signal's abort reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Logs a warning to `logger` when the lock is held longer than this time (ms), eg because `release()` was never called.
+   * Set to `0` to disable
+   * @default 60000
+   */
+  warnAfter?: number;
+  /**
+   * Logger to log warnings to, eg `directus.logger`. No warnings are logged without it
+   */
+  logger?: { warn(message: string): void };
+};
+
+/**
+ * Details of a current lock, see `getLocks`
+ */
+export type LockInfo = {
+  target: any;
+  shared: boolean;
+  /** Number of current holders, always 1 for exclusive locks */
+  holders: number;
+  /** Number of waiting requests */
+  queueLength: number;
+  /** When the current holder(s) acquired the lock */
+  achieved: Date;
+  /** Time (ms) the lock has been held by the current holder(s) */
+  age: number;
+};
+
+export class LockTimeoutError extends Error {
+  constructor(
+    public readonly target: any,
+    timeout: number,
+  ) {
+    super(`Timed out after ${timeout}ms waiting for lock on ${String(target)}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+const DEFAULT_WARN_AFTER = 60000;
 
 /**
  * Locking mechasnism that supports exclusive or shared locking.
  * Copied & modified from AceBase repository https://github.com/appy-one/acebase/blob/master/src/ts/thread-safe.ts
  */
 export class ThreadSafeLock extends EventEmitter {
-  readonly achieved: Date;
+  private _achieved: Date;
+
+  /**
+   * When the current holder(s) acquired the lock
+   */
+  public get achieved() {
+    return this._achieved;
+  }
 
   private shares = 0;
 
@@ -15,17 +71,56 @@ export class ThreadSafeLock extends EventEmitter {
 
   private _shared: boolean;
 
+  private warningTimer: ReturnType<typeof setTimeout> | null = null;
+
   public get shared() {
     return this._shared;
   }
 
+  /**
+   * Number of current holders, always 1 for exclusive locks
+   */
+  public get holders() {
+    return this.shared ? this.shares + 1 : 1;
+  }
+
+  /**
+   * Number of waiting requests
+   */
+  public get queueLength() {
+    return this.queue.length;
+  }
+
   constructor(
     public readonly target: any,
     shared: boolean,
+    private options: AcquireLockOptions = {},
   ) {
     super();
     this._shared = shared;
-    this.achieved = new Date();
+    this._achieved = new Date();
+    this.startWarningTimer();
+  }
+
+  /**
+   * Warns when the current holder(s) keep the lock longer than expected
+   */
+  private startWarningTimer() {
+    if (this.warningTimer) {
+      clearTimeout(this.warningTimer);
+      this.warningTimer = null;
+    }
+    const { logger } = this.options;
+    const warnAfter = this.options.warnAfter ?? DEFAULT_WARN_AFTER;
+    if (!logger || warnAfter <= 0) {
+      return;
+    }
+    this.warningTimer = setTimeout(() => {
+      logger.warn(
+        `ThreadSafeLock: ${this.shared ? 'Shared' : 'Exclusive'} lock on ${String(this.target)} has been held for more than ${warnAfter}ms, ${this.queue.length} requests waiting`,
+      );
+    }, warnAfter);
+    this.warningTimer.unref?.(); // Don't keep the process alive for this
   }
 
   release() {
@@ -34,45 +129,87 @@ export class ThreadSafeLock extends EventEmitter {
     } else if (this.queue.length > 0) {
       const next = this.queue.shift() as LockQueueItem;
       this._shared = next.shared;
+      this._achieved = new Date();
+      this.options = next.options;
+      this.startWarningTimer();
       next.grant();
       if (next.shared) {
         // Also grant other pending shared requests
         while (this.queue.length > 0 && this.queue[0]!.shared) {
+          this.shares++;
           (this.queue.shift() as LockQueueItem).grant();
         }
       }
     } else {
       // No more shares, no queue: this lock can be now be released entirely
+      if (this.warningTimer) {
+        clearTimeout(this.warningTimer);
+        this.warningTimer = null;
+      }
       this.emit('released');
     }
   }
 
-  async request(shared: boolean): Promise<void> {
+  async request(shared: boolean, options: AcquireLockOptions = {}): Promise<void> {
     if (this.shared && shared) {
       // Grant!
       this.shares++;
-    } else {
-      // Add to queue, wait until granted
-      const promise = new Promise<void>((resolve) => {
-        this.queue.push({ shared, grant: resolve });
-      });
-      await promise;
+      return;
     }
+    // Add to queue, wait until granted, timed out or aborted
+    const { timeout, signal } = options;
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cancel = (err: unknown) => {
+        const index = this.queue.indexOf(item);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          cleanup();
+          reject(err);
+        }
+      };
+      const onAbort = () => cancel(signal!.reason);
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const item: LockQueueItem = {
+        shared,
+        options,
+        grant: () => {
+          cleanup();
+          resolve();
+        },
+      };
+      this.queue.push(item);
+      if (typeof timeout === 'number') {
+        timer = setTimeout(() => cancel(new LockTimeoutError(this.target, timeout)), timeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
 
 const currentLocks = new Map<any, ThreadSafeLock>();
 
 /**
- *
+ * Acquires a lock on a target within the current process. Don't forget to `release()` it, or use `withLock`
  * @param target Target to lock
- * @param options Locking options
+ * @param shared Whether to acquire a shared lock instead of an exclusive one
+ * @param options Locking options: timeout, abort signal and held-too-long warning
  * @returns returns a lock
+ * @throws `LockTimeoutError` if the timeout expires, or the abort reason if the signal is aborted while waiting
  */
-export async function acquireLock(target: any, shared = false): Promise<ThreadSafeLock> {
+export async function acquireLock(
+  target: any,
+  shared = false,
+  options: AcquireLockOptions = {},
+): Promise<ThreadSafeLock> {
   if (!currentLocks.has(target)) {
     // New lock
-    const newLock = new ThreadSafeLock(target, shared);
+    options.signal?.throwIfAborted();
+    const newLock = new ThreadSafeLock(target, shared, options);
     currentLocks.set(target, newLock);
     newLock.once('released', () => {
       currentLocks.delete(target);
@@ -82,6 +219,96 @@ export async function acquireLock(target: any, shared = false): Promise<ThreadSa
 
   // Existing lock
   const existingLock = currentLocks.get(target) as ThreadSafeLock;
-  await existingLock.request(shared);
+  await existingLock.request(shared, options);
   return existingLock;
 }
+
+/**
+ * Runs a function while holding a lock on a target, the lock is always released afterwards
+ * @example
+ * ```ts
+ * const result = await withLock(`order:${orderId}`, () => syncOrder(orderId), { timeout: 10000 });
+ * ```
+ * @param target Target to lock
+ * @param fn Function to run
+ * @param options Whether to acquire a shared lock, and other locking options
+ * @returns the result of the function
+ */
+export async function withLock<T>(
+  target: any,
+  fn: () => T | Promise<T>,
+  options: AcquireLockOptions & { shared?: boolean } = {},
+): Promise<T> {
+  const { shared = false, ...lockOptions } = options;
+  const lock = await acquireLock(target, shared, lockOptions);
+  try {
+    return await fn();
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Lists all current locks of this process, eg for a debug endpoint
+ */
+export function getLocks(): LockInfo[] {
+  const now = Date.now();
+  return Array.from(currentLocks.values()).map((lock) => ({
+    target: lock.target,
+    shared: lock.shared,
+    holders: lock.holders,
+    queueLength: lock.queueLength,
+    achieved: lock.achieved,
+    age: now - lock.achieved.getTime(),
+  }));
+}
+
+/**
+ * A lock acquired through a `LockBackend`
+ */
+export interface LockHandle {
+  readonly target: string;
+  readonly shared: boolean;
+  /**
+   * Releases the lock
+   */
+  release(): Promise<void>;
+}
+
+/**
+ * Common interface of lock implementations, so callers can switch between process-local locks (`MemoryLockBackend`)
+ * and locks that are shared between multiple Directus instances (`DatabaseLockBackend`)
+ */
+export interface LockBackend {
+  /**
+   * Acquires a lock on given target, waits until it is available
+   * @param target target to lock, eg `orders:12`
+   * @param shared whether to acquire a shared (read) lock instead of an exclusive one
+   * @param options timeout and abort signal
+   */
+  acquire(
+    target: string,
+    shared?: boolean,
+    options?: Pick<AcquireLockOptions, 'timeout' | 'signal'>,
+  ): Promise<LockHandle>;
+}
+
+/**
+ * Lock backend that uses `acquireLock`, locks are only effective within the current process
+ */
+export class MemoryLockBackend implements LockBackend {
+  constructor(private readonly options: Omit<AcquireLockOptions, 'timeout' | 'signal'> = {}) {}
+
+  async acquire(
+    target: string,
+    shared = false,
+    options: Pick<AcquireLockOptions, 'timeout' | 'signal'> = {},
+  ): Promise<LockHandle> {
+    const lock = await acquireLock(target, shared, { ...this.options, ...options });
+    return {
+      target,
+      shared,
+      release: async () => lock.release(),
+    };
+  }
+}
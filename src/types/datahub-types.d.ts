@@ -959,6 +959,7 @@ export interface components {
       date_updated?: string | null;
       endpoint?: string;
       id?: number;
+      methods?: string[] | null;
       status?: string | null;
       user_created?: string | components["schemas"]["Users"] | null;
       user_updated?: string | components["schemas"]["Users"] | null;
@@ -966,6 +967,38 @@ export interface components {
       allow_public_access?: boolean;
       roles?: ((number | components["schemas"]["ItemsConfigEndpointsDirectusRoles"])[]) | null;
       users?: ((number | components["schemas"]["ItemsConfigEndpointsDirectusUsers"])[]) | null;
+      credentials?: ((number | components["schemas"]["ItemsConfigEndpointsConfigEndpointCredentials"])[]) | null;
+      ip_allowlist?: string[] | null;
+      rate_limit?: number | null;
+      rate_limit_window?: number | null;
+      rate_limit_key?: string | null;
+    };
+    ItemsConfigEndpointCredentials: {
+      /** Format: timestamp */
+      date_created?: string | null;
+      /** Format: timestamp */
+      expires_at?: string | null;
+      hmac_algorithm?: string | null;
+      hmac_header?: string | null;
+      hmac_tolerance?: number | null;
+      id?: number;
+      /** @description Hashed API key. Plain text keys are hashed when saved */
+      key_hash?: string | null;
+      /** Format: timestamp */
+      last_used_at?: string | null;
+      name?: string;
+      secret?: string | null;
+      status?: string | null;
+      type?: string;
+    };
+    ItemsConfigEndpointsConfigEndpointCredentials: {
+      id?: number;
+      config_endpoints_id?:
+        | (number | components["schemas"]["ItemsConfigEndpoints"])
+        | null;
+      config_endpoint_credentials_id?:
+        | (number | components["schemas"]["ItemsConfigEndpointCredentials"])
+        | null;
     };
     ItemsConfigEndpointsDirectusUsers: {
       id?: number;
@@ -981,6 +1014,51 @@ export interface components {
         | null;
       directus_roles_id?: (string | components["schemas"]["Roles"]) | null;
     };
+    ItemsEndpointAccessLog: {
+      credential?: string | null;
+      decision?: string;
+      endpoint?: string;
+      id?: number;
+      ip?: string | null;
+      latency?: number | null;
+      message?: string | null;
+      method?: string;
+      reason?: string;
+      role?: string | null;
+      status_code?: number | null;
+      /** Format: timestamp */
+      timestamp?: string;
+      user?: string | null;
+    };
+    ItemsFieldChanges: {
+      collection?: string;
+      current?: unknown | null;
+      event?: string;
+      field?: string;
+      id?: number;
+      item?: string;
+      previous?: unknown | null;
+      /** Format: timestamp */
+      timestamp?: string;
+      user?: string | null;
+    };
+    ItemsMonitorOutbox: {
+      accountability?: unknown | null;
+      attempts?: number;
+      collection?: string;
+      /** Format: timestamp */
+      date_created?: string | null;
+      event?: string;
+      id?: number;
+      keys?: unknown | null;
+      last_error?: string | null;
+      monitor?: string;
+      mutations?: unknown | null;
+      /** Format: timestamp */
+      next_attempt_at?: string | null;
+      payload?: unknown | null;
+      status?: string;
+    };
     ItemsSyncErrors: {
       date_created?: string | null;
       debug_data?: string | null;
@@ -5348,5 +5426,10 @@ export type DataHubTypes = {
   config_endpoints: components["schemas"]["ItemsConfigEndpoints"];
   config_endpoints_directus_users: components["schemas"]["ItemsConfigEndpointsDirectusUsers"];
   config_endpoints_directus_roles: components["schemas"]["ItemsConfigEndpointsDirectusRoles"];
+  config_endpoint_credentials: components["schemas"]["ItemsConfigEndpointCredentials"];
+  config_endpoints_config_endpoint_credentials: components["schemas"]["ItemsConfigEndpointsConfigEndpointCredentials"];
   sync_errors: components["schemas"]["ItemsSyncErrors"];
+  endpoint_access_log: components["schemas"]["ItemsEndpointAccessLog"];
+  monitor_outbox: components["schemas"]["ItemsMonitorOutbox"];
+  field_changes: components["schemas"]["ItemsFieldChanges"];
 };
\ No newline at end of file
@@ -1,8 +1,44 @@
 import { DataHubTypes } from './datahub-types.js';
 import { Refactor } from './select.js';
+import type { EndpointHttpMethod } from '../endpoint-patterns.js';
+import type { EndpointAccessDecision, EndpointAccessReason } from '../endpoint-access-log.js';
+import type { RateLimitKeyType } from '../endpoint-rate-limit.js';
+import type { MonitorOutboxMutation } from '../monitor-outbox.js';
+import type { Accountability, PrimaryKey } from '../directus.js';
 
 export type SyncErrorsItem = Required<DataHubTypes['sync_errors']>;
 export type ConfigEndpointsItem = Refactor<
   Required<DataHubTypes['config_endpoints']>,
-  { status: 'enabled' | 'disabled' }
+  {
+    status: 'enabled' | 'disabled';
+    methods: EndpointHttpMethod[] | null;
+    ip_allowlist: string[] | null;
+    rate_limit_key: RateLimitKeyType | null;
+  }
+>;
+export type ConfigEndpointCredentialsItem = Refactor<
+  Required<DataHubTypes['config_endpoint_credentials']>,
+  {
+    status: 'enabled' | 'disabled';
+    type: 'api_key' | 'hmac';
+    hmac_algorithm: 'sha256' | 'sha512' | 'sha1' | null;
+  }
+>;
+export type EndpointAccessLogItem = Refactor<
+  Required<DataHubTypes['endpoint_access_log']>,
+  { decision: EndpointAccessDecision; reason: EndpointAccessReason }
+>;
+export type MonitorOutboxItem = Refactor<
+  Required<DataHubTypes['monitor_outbox']>,
+  {
+    status: 'pending' | 'dead';
+    keys: PrimaryKey[];
+    mutations: MonitorOutboxMutation[];
+    payload: unknown;
+    accountability: Accountability;
+  }
+>;
+export type FieldChangesItem = Refactor<
+  Required<DataHubTypes['field_changes']>,
+  { event: 'create' | 'update' | 'delete'; previous: unknown; current: unknown }
 >;